@@ -5,6 +5,19 @@ dotenv.config();
 const baseMainnet: NetworkConfig = {
   network: 'base',
   rpcUrl: process.env.RPC_URL as string,
+  rpcUrls: (process.env.RPC_URLS || process.env.RPC_URL || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0)
+    .map((url, index) => ({ url, priority: index })),
+  rpcHealth: {
+    timeoutMs: 10000,
+    maxBlockLag: 5,
+    healthCheckIntervalMs: 30000,
+    maxConsecutiveFailures: 3,
+    cooldownMs: 60000,
+  },
+  wsUrl: process.env.WS_URL,
   chainId: 8453,
   uniswap: {
     swapRouter: '0x2626664c2603336E57B271c5C0b26F421741e481',
@@ -15,6 +28,57 @@ const baseMainnet: NetworkConfig = {
   strategy: {
     checkInterval: 10000,
     widthPercent: 20,
+    loopMode: process.env.WS_URL ? 'block' : 'poll',
+    rangeStrategy: 'npc',
+    rebalanceMode: 'full',
+    depositRatio: 'range',
+    // Deposit idle wallet value (token1 units) above this into the live
+    // legs, disabled unless set, e.g. topUpMinValue: 10
+    // Compound fees into the live legs once they are worth enough gas,
+    // disabled unless set, e.g.
+    // compounding: { intervalSeconds: 6 * 60 * 60, minFeeToGasRatio: 5 },
+    // Positions on the pool the strategy did not mint are closed and their
+    // funds used unless set, e.g. unmanagedPositions: 'ignore' (leave them)
+    // or unmanagedPositions: 'adopt' (manage them)
+    // Compare the chain with the database on a schedule, disabled unless
+    // set, e.g.
+    // reconciliation: { intervalSeconds: 60 * 60, balanceDriftTolerancePercent: 1 },
+    // Fees collected on close are redeployed ('compound') unless set, e.g.
+    // feePolicy: { mode: 'keep' }, { mode: 'sweep', treasuryAddress } or
+    // { mode: 'convert', convertToken: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452' }
+    // to convert them to wstETH. Only 'compound' works with the atomic mode
+    volatility: {
+      lookbackHours: 24,
+      sigmaMultiplier: 2,
+      minWidthPercent: 5,
+      maxWidthPercent: 40,
+      minSamples: 10,
+    },
+    ladder: {
+      legCount: 4,
+      weightCurve: 'gaussian',
+      overlapPercent: 0,
+    },
+  },
+  oracle: {
+    // Rebalance on the spot price. For 'twap' or a maxSpotTwapDeviationTicks
+    // guard the pool needs enough observation slots for the window: set
+    // cardinality.dryRun to false (or grow it manually) before enabling them
+    priceSource: 'spot',
+    twapWindowSeconds: 300,
+    cardinality: {
+      blockTimeSeconds: 2,
+      autoIncrease: true,
+      dryRun: true,
+      maxGasCostEth: 0.005,
+    },
+    aggregator: process.env.PRICE_FEED_ADDRESS
+      ? {
+          address: process.env.PRICE_FEED_ADDRESS,
+          maxStalenessSeconds: 3600,
+          maxDivergencePercent: 2,
+        }
+      : undefined,
   },
   database: {
     mongoUri: process.env.MONGO_URI as string,
@@ -0,0 +1,57 @@
+import { AggregatorConfig, NetworkConfig } from '../utils/types';
+import baseMainnet from './base.config';
+import dotenv from 'dotenv';
+dotenv.config();
+
+// Pools run side by side from one wallet. Each one uses the base config with
+// its own pool address; pools needing different strategy settings can be
+// listed here with their own overrides instead. The pools must not share a
+// token: each strategy sizes its positions from the whole wallet balance, so
+// e.g. WETH/USDC next to WETH/cbBTC is refused at startup. A price feed only
+// fits one pair, so PRICE_FEED_ADDRESS is kept for the configured pool only
+// and other pools take theirs from a '<pool>:<feed>' entry
+const poolEntries = (process.env.POOL_ADDRESSES || '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0)
+  .map((entry) => {
+    const [poolAddress, feedAddress] = entry.split(':').map((part) => part.trim());
+    return { poolAddress, feedAddress: feedAddress || null };
+  });
+
+/**
+ * Pick the secondary price feed of a pool
+ * @param poolAddress Pool the strategy runs on
+ * @param feedAddress Feed listed for the pool, if any
+ * @returns The feed config, or undefined if the pool has none
+ */
+function poolAggregator(
+  poolAddress: string,
+  feedAddress: string | null
+): AggregatorConfig | undefined {
+  if (feedAddress) {
+    return {
+      address: feedAddress,
+      maxStalenessSeconds: 3600,
+      maxDivergencePercent: 2,
+    };
+  }
+
+  const isConfiguredPool =
+    poolAddress.toLowerCase() === baseMainnet.uniswap.poolAddress.toLowerCase();
+  return isConfiguredPool ? baseMainnet.oracle?.aggregator : undefined;
+}
+
+const pools: NetworkConfig[] =
+  poolEntries.length > 0
+    ? poolEntries.map(({ poolAddress, feedAddress }) => ({
+        ...baseMainnet,
+        uniswap: { ...baseMainnet.uniswap, poolAddress },
+        oracle: baseMainnet.oracle && {
+          ...baseMainnet.oracle,
+          aggregator: poolAggregator(poolAddress, feedAddress),
+        },
+      }))
+    : [baseMainnet];
+
+export default pools;
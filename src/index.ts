@@ -1,6 +1,6 @@
 import dotenv from "dotenv";
-import baseMainnet from "./config/base.config";
-import { CustomPoolStrategy } from "./services/CustomPoolStrategy";
+import pools from "./config/pools.config";
+import { StrategySupervisor } from "./services/StrategySupervisor";
 
 // Load environment variables
 dotenv.config();
@@ -8,14 +8,14 @@ dotenv.config();
 // Start the strategy
 async function main() {
 	try {
-		// Initialize strategy with MongoDB if URI is provided
-		const strategy = new CustomPoolStrategy(baseMainnet, process.env.PRIVATE_KEY as string);
+		// Run one strategy per configured pool from the same wallet
+		const supervisor = new StrategySupervisor(pools, process.env.PRIVATE_KEY as string);
 
 		// Initialize services
-		await strategy.initialize();
+		await supervisor.initialize();
 
-		// Start the strategy
-		await strategy.start();
+		// Start the strategies
+		await supervisor.start();
 	} catch (error) {
 		console.error("Error starting strategy:", error);
 		process.exit(1);
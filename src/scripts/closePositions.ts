@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 import { LiquidityManager } from "../services/LiquidityManager";
 import { SwapService } from "../services/SwapService";
+import { createProvider } from "../services/FailoverProvider";
 import baseConfig from "../config/base.config";
 import dotenv from "dotenv";
 import IUniswapV3PoolABI from "../contracts/abis/IUniswapV3Pool.json";
@@ -13,7 +14,7 @@ async function closePositions() {
   console.log("Starting position closing script...");
   
   // Initialize provider
-  const provider = new ethers.providers.JsonRpcProvider(baseConfig.rpcUrl);
+  const provider = createProvider(baseConfig);
   
   // Initialize liquidityManager and swapService
   const liquidityManager = new LiquidityManager(baseConfig, privateKey, provider);
@@ -30,14 +31,14 @@ async function closePositions() {
     // Initialize the LiquidityManager with pool contract
     await liquidityManager.initialize(poolContract);
     
-    // Set swap service for fee conversion to wstETH
+    // Set swap service for the fee policy conversion
     liquidityManager.setSwapService(swapService);
     
     // Get token decimals for proper formatting
     const token0Decimals = liquidityManager.getToken0Decimals();
     const token1Decimals = liquidityManager.getToken1Decimals();
     
-    // Get all positions
+    // Get all positions on the configured pool
     console.log("Fetching user positions...");
     const positions = await liquidityManager.getUserPositions();
     
@@ -61,7 +62,7 @@ async function closePositions() {
       try {
         // Close the position, which will:
         // 1. Decrease all liquidity
-        // 2. Collect all fees (will be converted to wstETH)
+        // 2. Collect all fees (routed by the configured fee policy)
         // 3. Burn the NFT
         const result = await liquidityManager.closePosition(tokenId);
         
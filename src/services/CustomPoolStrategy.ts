@@ -5,13 +5,67 @@ import {
 	InRangePositions,
 	CloseBalances,
 	PositionInfo,
+	PriceData,
+	RangeContext,
+	RebalanceMode,
+	TargetLeg,
+	TickRange,
+	DepositRatioMode,
+	LoopMode,
+	ClosedPosition,
+	MintedPosition,
+	MintRequest,
+	StrategyState,
+	RebalancePhase,
+	RebalanceProgress,
+	CompoundingConfig,
+	UncollectedFees,
+	PortfolioValuation,
+	ReconciliationReport,
+	UnmanagedPositionPolicy,
 } from "../utils/types";
+import { computeDepositPlan } from "../utils/depositRatio";
+import {
+	LegPnl,
+	balancedHoldingsFor,
+	computeLegPnl,
+	summarizeCycle,
+} from "../utils/accounting";
+import {
+	getAmountsForLiquidity,
+	getLiquidityForAmounts,
+	getSqrtRatioAtTick,
+	quoteToken0InToken1,
+	quoteToken1InToken0,
+} from "../utils/uniswapMath";
 import { LiquidityManager } from "./LiquidityManager";
 import { OracleService } from "./OracleService";
 import { DataTrackingService } from "./DataTrackingService";
 import IERC20ABI from "../contracts/abis/IERC20.json";
 import IUniswapV3PoolABI from "../contracts/abis/IUniswapV3Pool.json";
 import { SwapService } from "./SwapService";
+import { ReconciliationService } from "./ReconciliationService";
+import { PriceStreamEvent, PriceStreamService } from "./PriceStreamService";
+import { createProvider } from "./FailoverProvider";
+import { createSigner } from "./NonceManager";
+import { RateLimiter } from "../utils/rateLimiter";
+import { OracleCache } from "../utils/oracleCache";
+import {
+	RangeStrategy,
+	createRangeStrategy,
+} from "../strategies/RangeStrategy";
+
+// Shorter than a Base block, so cached oracle reads are never a block behind
+export const ORACLE_CACHE_TTL_MS = 1000;
+
+/**
+ * Services shared by strategies running side by side in one process
+ */
+export interface SharedServices {
+	provider: ethers.providers.JsonRpcProvider;
+	oracleCache: OracleCache;
+	swapRateLimiter: RateLimiter;
+}
 
 export class CustomPoolStrategy {
 	private provider: ethers.providers.JsonRpcProvider;
@@ -21,6 +75,7 @@ export class CustomPoolStrategy {
 	private oracleService: OracleService;
 	private dataTrackingService: DataTrackingService;
 	private swapService: SwapService;
+	private rangeStrategy: RangeStrategy;
 	private token0: string | null = null;
 	private token1: string | null = null;
 	private token0Decimals: number | null = null;
@@ -32,24 +87,93 @@ export class CustomPoolStrategy {
 	private checkInterval: number;
 	private stats: StrategyStats;
 	private lastRebalancePrice: number = 0;
-	private inRangePositions: InRangePositions = { upper: null, lower: null };
+	private inRangePositions: InRangePositions = { legs: [] };
 	private closeBalances: CloseBalances = {
 		token0: BigNumber.from(0),
 		token1: BigNumber.from(0),
 	};
+	// Fees left idle by the "keep" fee policy, never redeployed
+	private retainedFees: CloseBalances = {
+		token0: BigNumber.from(0),
+		token1: BigNumber.from(0),
+	};
 	private lastRebalanceSqrtPriceX96: BigNumber = BigNumber.from(0);
-
-	constructor(private config: NetworkConfig, privateKey: string) {
-		this.provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
-		this.signer = new ethers.Wallet(privateKey, this.provider);
+	private rebalanceMode: RebalanceMode;
+	private depositRatio: DepositRatioMode;
+	private loopMode: LoopMode;
+	private atomicSwapTolerancePercent: number;
+	private routerSlippagePercent: number;
+	private mintSlippagePercent: number;
+	private topUpMinValue: number | null;
+	private lastTopUpIdleValue: number = 0;
+	private lastTopUpWalletBalances: CloseBalances | null = null;
+	private compounding: CompoundingConfig | null;
+	private lastCompoundTimestamp: number = 0;
+	private rebalanceProgress: RebalanceProgress | null = null;
+	private rebalanceNeedsReconcile: boolean = false;
+	private reconciliationService: ReconciliationService | null = null;
+	private unmanagedPositionPolicy: UnmanagedPositionPolicy;
+	private ownedTokenIds: Set<number> = new Set();
+	private ignoredTokenIds: number[] = [];
+	private lastReconciliationTimestamp: number = 0;
+	private priceStream: PriceStreamService | null = null;
+	private isStrategyRunning: boolean = false;
+	private pendingStreamPrice: PriceData | null = null;
+	private lastCheckTimestamp: number = 0;
+	private idleCheckTimer: NodeJS.Timeout | null = null;
+
+	// WETH token address on Base, used to value gas in token1
+	private readonly WETH_ADDRESS =
+		"0x4200000000000000000000000000000000000006"; // Base WETH address
+
+	constructor(
+		private config: NetworkConfig,
+		privateKey: string,
+		shared?: SharedServices
+	) {
+		this.provider = shared?.provider ?? createProvider(config);
+		this.signer = createSigner(privateKey, this.provider);
 		this.walletAddress = this.signer.address;
 		this.checkInterval = config.strategy.checkInterval;
+		this.rebalanceMode = config.strategy.rebalanceMode ?? "full";
+		// The atomic multicall mints with everything it collects, fees included
+		const feePolicyMode = config.strategy.feePolicy?.mode ?? "compound";
+		if (this.rebalanceMode === "atomic" && feePolicyMode !== "compound") {
+			throw new Error(
+				`Invalid config: the atomic rebalance mode redeploys collected fees and cannot be combined with the "${feePolicyMode}" fee policy`
+			);
+		}
+		this.depositRatio = config.strategy.depositRatio ?? "5050";
+		this.loopMode = config.strategy.loopMode ?? "poll";
+		this.atomicSwapTolerancePercent =
+			config.strategy.atomicSwapTolerancePercent ?? 0.5;
+		this.routerSlippagePercent = config.strategy.routerSlippagePercent ?? 0.5;
+		this.mintSlippagePercent = config.strategy.mintSlippagePercent ?? 2;
+		this.topUpMinValue = config.strategy.topUpMinValue ?? null;
+		this.compounding = config.strategy.compounding ?? null;
+		this.unmanagedPositionPolicy =
+			config.strategy.unmanagedPositions ?? "close";
+		if (!["adopt", "ignore", "close"].includes(this.unmanagedPositionPolicy)) {
+			throw new Error(
+				`Invalid unmanaged position policy: ${this.unmanagedPositionPolicy}`
+			);
+		}
 		this.poolAddress = config.uniswap.poolAddress;
 
 		// Initialize managers
-		this.oracleService = new OracleService(config, this.provider);
+		this.oracleService = new OracleService(
+			config,
+			this.provider,
+			// Collapses repeated reads within one loop, shared by supervised pools
+			shared?.oracleCache ?? new OracleCache(ORACLE_CACHE_TTL_MS)
+		);
 		this.liquidityManager = new LiquidityManager(config, privateKey, this.provider);
-		this.swapService = new SwapService(config, privateKey, this.provider);
+		this.swapService = new SwapService(
+			config,
+			privateKey,
+			this.provider,
+			shared?.swapRateLimiter
+		);
 
 		// Initialize data tracking service
 		this.dataTrackingService = new DataTrackingService(
@@ -59,6 +183,17 @@ export class CustomPoolStrategy {
 			config.database.dbName,
 			this.checkInterval
 		);
+		this.rangeStrategy = createRangeStrategy(
+			config,
+			this.dataTrackingService
+		);
+		if (config.strategy.reconciliation) {
+			this.reconciliationService = new ReconciliationService(
+				config.strategy.reconciliation,
+				this.liquidityManager,
+				this.dataTrackingService
+			);
+		}
 
 		// Initialize pool contract
 		this.poolContract = new ethers.Contract(
@@ -124,12 +259,28 @@ export class CustomPoolStrategy {
 		await this.liquidityManager.initialize(this.poolContract);
 		await this.oracleService.initialize(
 			this.token0Contract,
-			this.token1Contract
+			this.token1Contract,
+			this.signer
 		);
 		await this.dataTrackingService.initialize(this.oracleService);
-		await this.dataTrackingService.startTracking();
+
+		// In block mode the strategy and the tracker share one price stream
+		if (this.loopMode === "block") {
+			this.priceStream = new PriceStreamService(
+				this.config,
+				this.oracleService
+			);
+		}
+		await this.dataTrackingService.startTracking(
+			this.priceStream ?? undefined
+		);
 
 		this.liquidityManager.setSwapService(this.swapService);
+		this.reconciliationService?.initialize(
+			this.token0Contract,
+			this.token1Contract,
+			this.walletAddress
+		);
 
 		console.log("Data tracking service initialized and started");
 
@@ -140,8 +291,17 @@ export class CustomPoolStrategy {
 			this.walletAddress
 		);
 
-		this.stats.initialToken0Amount = token0Balance;
-		this.stats.initialToken1Amount = token1Balance;
+		// Pick up where the last run left off, if it checkpointed its state
+		const savedState = await this.restoreState(token0Balance, token1Balance);
+
+		if (!savedState) {
+			this.stats.initialToken0Amount = token0Balance;
+			this.stats.initialToken1Amount = token1Balance;
+
+			// Set close balances
+			this.closeBalances.token0 = token0Balance;
+			this.closeBalances.token1 = token1Balance;
+		}
 		this.stats.currentToken0Amount = token0Balance;
 		this.stats.currentToken1Amount = token1Balance;
 
@@ -158,59 +318,385 @@ export class CustomPoolStrategy {
 			)}`
 		);
 
-		// Set close balances
-		this.closeBalances.token0 = token0Balance;
-		this.closeBalances.token1 = token1Balance;
-
 		// Initialize and check for existing positions
-		await this.initializeStrategy();
+		await this.initializeStrategy(savedState);
+		await this.checkpoint();
+
+		if (this.reconciliationService?.onStartup) {
+			await this.reconcileIfDue();
+		}
 	}
 
 	/**
 	 * Initialize the strategy
+	 * @param savedState State checkpointed by the previous run, if any
 	 */
-	private async initializeStrategy(): Promise<void> {
+	private async initializeStrategy(
+		savedState: StrategyState | null
+	): Promise<void> {
 		console.log("Initializing strategy...");
 
 		// First check if we already have positions
 		console.log("Checking for existing positions...");
 
-		// Get all user positions
-		const positions = await this.liquidityManager.getUserPositions();
+		// Get the positions on the pool the strategy owns or adopts. A failed
+		// read must not look like an empty wallet and drop the owned IDs
+		const positions = await this.claimPositions(
+			await this.liquidityManager.getUserPositions(true),
+			savedState
+		);
+
+		// Continue a rebalance the previous run did not finish
+		if (savedState && this.rebalanceProgress) {
+			await this.resumeInterruptedRebalance(savedState, positions);
+			return;
+		}
+
+		// Resume the saved legs if they are all still live on chain
+		if (savedState && savedState.legTokenIds.length > 0) {
+			const legs = await this.resumeLegs(savedState.legTokenIds, positions);
+			if (legs) {
+				this.inRangePositions = { legs };
+				legs.forEach((position, index) =>
+					console.log(
+						`Resumed ${this.legLabel(index, legs.length)} position: ${
+							position.tokenId
+						}, ticks [${position.tickLower}, ${position.tickUpper}]`
+					)
+				);
+
+				const strays = positions.filter(
+					(position) => !savedState.legTokenIds.includes(position.tokenId)
+				);
+				if (strays.length > 0) {
+					console.log(
+						`Found ${strays.length} positions outside the saved legs, handling as stray positions`
+					);
+					await this.handleStrayPositions(strays);
+				}
+				return;
+			}
+
+			console.log(
+				"Saved legs no longer match the positions on chain, rebuilding the layout"
+			);
+			await this.refreshCloseBalances();
+		}
 		
 		// Handle existing positions
 		if (positions.length > 0) {
 			console.log(`Found ${positions.length} existing positions`);
 			
-			// Check if we have exactly 2 positions (our expected upper and lower positions)
-			if (positions.length === 2) {
-				console.log("Found 2 positions, assigning as upper and lower positions");
+			// Check if we have exactly as many positions as the range strategy manages
+			const expectedLegs = this.rangeStrategy.legCount;
+			if (positions.length === expectedLegs) {
+				console.log(`Found ${expectedLegs} positions, assigning as strategy legs`);
 				
-				// Sort them by tick range (higher tick range is upper position)
+				// Sort them by tick range (lowest band first)
 				const sortedPositions = [...positions].sort(
 					(a, b) => a.tickLower - b.tickLower
 				);
 				
-				const lowerPositionInfo = sortedPositions[0];
-				const upperPositionInfo = sortedPositions[1];
-				
 				// Record these positions
-				this.inRangePositions.lower = lowerPositionInfo;
-				this.inRangePositions.upper = upperPositionInfo;
+				this.inRangePositions = { legs: sortedPositions };
 				
-				console.log(`Lower position: ${lowerPositionInfo.tokenId}, ticks [${lowerPositionInfo.tickLower}, ${lowerPositionInfo.tickUpper}]`);
-				console.log(`Upper position: ${upperPositionInfo.tokenId}, ticks [${upperPositionInfo.tickLower}, ${upperPositionInfo.tickUpper}]`);
+				sortedPositions.forEach((position, index) =>
+					console.log(`${this.legLabel(index, sortedPositions.length)} position: ${position.tokenId}, ticks [${position.tickLower}, ${position.tickUpper}]`)
+				);
 				
 				return;
 			} else {
-				// Handle stray positions - positions that are not being tracked by the strategy
+				// Only the strategy's own positions get here, the unmanaged
+				// ones were already handled by their policy
 				console.log("Found unexpected number of positions, handling as stray positions");
 				await this.handleStrayPositions(positions);
 			}
 		}
 
-		await this.ensureBalanced5050();
-		await this.rebalanceAndOpenPositions();
+		await this.fullRebalance();
+	}
+
+	/**
+	 * Split the wallet's positions on the pool into the ones the strategy
+	 * minted and the unmanaged ones, which are adopted, ignored or closed
+	 * according to the configured policy. Without a saved state there is no
+	 * record of what the strategy minted, e.g. on the first run after
+	 * upgrading, so only positions forming the leg layout are taken over
+	 * @param positions Positions the wallet holds on the pool
+	 * @param savedState State checkpointed by the previous run, if any
+	 * @returns The positions the strategy manages
+	 */
+	private async claimPositions(
+		positions: PositionInfo[],
+		savedState: StrategyState | null
+	): Promise<PositionInfo[]> {
+		// Forget positions that were closed outside the strategy
+		const heldIds = positions.map((position) => position.tokenId);
+		this.ownedTokenIds.forEach((tokenId) => {
+			if (!heldIds.includes(tokenId)) {
+				this.ownedTokenIds.delete(tokenId);
+			}
+		});
+
+		const layoutIds = savedState
+			? []
+			: this.findLegLayout(positions).map((position) => position.tokenId);
+
+		const owned: PositionInfo[] = [];
+		const unmanaged: PositionInfo[] = [];
+		for (const position of positions) {
+			// A rebalance may have minted legs before it could checkpoint them
+			const mintedInFlight =
+				this.rebalanceProgress?.targetLegs.some((target) =>
+					this.matchesRange(position, target)
+				) ?? false;
+
+			if (
+				this.ownedTokenIds.has(position.tokenId) ||
+				layoutIds.includes(position.tokenId) ||
+				mintedInFlight
+			) {
+				this.ownedTokenIds.add(position.tokenId);
+				owned.push(position);
+			} else {
+				unmanaged.push(position);
+			}
+		}
+
+		if (unmanaged.length === 0) {
+			return owned;
+		}
+
+		console.log(
+			`Found ${unmanaged.length} positions the strategy did not mint (${unmanaged
+				.map((position) => position.tokenId)
+				.join(", ")}), policy: ${this.unmanagedPositionPolicy}`
+		);
+		for (const position of unmanaged) {
+			await this.dataTrackingService.recordUnmanagedPositionDetected(
+				position.tokenId,
+				position,
+				this.unmanagedPositionPolicy
+			);
+		}
+
+		switch (this.unmanagedPositionPolicy) {
+			case "adopt":
+				unmanaged.forEach((position) =>
+					this.ownedTokenIds.add(position.tokenId)
+				);
+				return [...owned, ...unmanaged];
+			case "ignore":
+				this.ignoredTokenIds = unmanaged.map((position) => position.tokenId);
+				return owned;
+			case "close":
+				await this.handleStrayPositions(unmanaged);
+				return owned;
+			default:
+				throw new Error(
+					`Unknown unmanaged position policy: ${this.unmanagedPositionPolicy}`
+				);
+		}
+	}
+
+	/**
+	 * Find the positions that form this strategy's leg layout: legCount bands
+	 * in a row, each starting above the previous one and no later than where
+	 * it ends. Anything ambiguous is left unclaimed
+	 * @param positions Positions the wallet holds on the pool
+	 * @returns The layout's positions from the lowest band up, or none
+	 */
+	private findLegLayout(positions: PositionInfo[]): PositionInfo[] {
+		const legCount = this.rangeStrategy.legCount;
+		const sorted = [...positions].sort((a, b) => a.tickLower - b.tickLower);
+
+		const layouts: PositionInfo[][] = [];
+		for (let start = 0; start + legCount <= sorted.length; start++) {
+			const window = sorted.slice(start, start + legCount);
+			const chained = window.every(
+				(position, index) =>
+					index === 0 ||
+					(position.tickLower > window[index - 1].tickLower &&
+						position.tickLower <= window[index - 1].tickUpper)
+			);
+			if (chained) {
+				layouts.push(window);
+			}
+		}
+
+		return layouts.length === 1 ? layouts[0] : [];
+	}
+
+	/**
+	 * Pick up a rebalance interrupted by a crash or restart: restore the legs
+	 * it had not closed yet or had already minted, leave positions that match
+	 * its target layout for the minting step to adopt, and run the remaining
+	 * steps
+	 * @param savedState State checkpointed by the previous run
+	 * @param positions Positions the wallet currently holds
+	 */
+	private async resumeInterruptedRebalance(
+		savedState: StrategyState,
+		positions: PositionInfo[]
+	): Promise<void> {
+		const progress = this.rebalanceProgress!;
+		console.log(
+			`Resuming interrupted rebalance at step ${progress.phase} (started ${new Date(
+				progress.startedAt * 1000
+			).toLocaleString()})`
+		);
+
+		const legs = (await this.resumeLegs(
+			savedState.legTokenIds,
+			positions,
+			true
+		))!;
+		this.inRangePositions = { legs };
+
+		// Legs closed after the last checkpoint are no longer on chain, and
+		// their tokens sit in the wallet without having been booked. Until
+		// minting starts the whole wallet is meant for the new layout anyway
+		if (
+			progress.phase === RebalancePhase.CLOSING ||
+			progress.phase === RebalancePhase.SWAPPING
+		) {
+			await this.refreshCloseBalances();
+		}
+
+		const strays = positions.filter(
+			(position) =>
+				!savedState.legTokenIds.includes(position.tokenId) &&
+				!progress.targetLegs.some((target) =>
+					this.matchesRange(position, target)
+				)
+		);
+		if (strays.length > 0) {
+			await this.handleStrayPositions(strays);
+		}
+
+		// Balances may have changed after the last checkpoint
+		this.rebalanceNeedsReconcile = true;
+
+		if (await this.isPriceSafe("rebalance")) {
+			await this.runRebalance();
+		} else {
+			console.log("Rebalance will resume once the pool price can be trusted");
+		}
+	}
+
+	/**
+	 * Load the state checkpointed by the previous run. The wallet is the
+	 * source of truth for balances: a crash mid-swap or mid-mint leaves less
+	 * in the wallet than the checkpoint recorded
+	 * @param wallet0 Current token0 wallet balance
+	 * @param wallet1 Current token1 wallet balance
+	 * @returns The saved state, or null if there is nothing to resume
+	 */
+	private async restoreState(
+		wallet0: BigNumber,
+		wallet1: BigNumber
+	): Promise<StrategyState | null> {
+		const state = await this.dataTrackingService.loadStrategyState(
+			this.poolAddress
+		);
+		if (!state) {
+			console.log("No saved strategy state, starting fresh");
+			return null;
+		}
+
+		console.log(
+			`Restoring strategy state saved at ${new Date(
+				state.updatedAt * 1000
+			).toLocaleString()}`
+		);
+
+		const stats = await this.dataTrackingService.loadLatestStats();
+		if (stats && stats.startTimestamp === state.statsStartTimestamp) {
+			this.stats = stats;
+		} else {
+			console.log("Saved stats not found, keeping fresh stats");
+			this.stats.initialToken0Amount = wallet0;
+			this.stats.initialToken1Amount = wallet1;
+		}
+
+		this.lastRebalancePrice = state.lastRebalancePrice;
+		this.lastRebalanceSqrtPriceX96 = state.lastRebalanceSqrtPriceX96;
+		this.lastCompoundTimestamp = state.lastCompoundTimestamp;
+		this.rebalanceProgress = state.rebalance;
+		this.ownedTokenIds = new Set(state.ownedTokenIds);
+		this.retainedFees = state.retainedFees;
+		this.closeBalances = {
+			token0: state.closeBalances.token0.lt(wallet0)
+				? state.closeBalances.token0
+				: wallet0,
+			token1: state.closeBalances.token1.lt(wallet1)
+				? state.closeBalances.token1
+				: wallet1,
+		};
+
+		return state;
+	}
+
+	/**
+	 * Rebuild the saved legs from the chain, keeping the deposit amounts and
+	 * benchmarks only the database knows
+	 * @param legTokenIds Token IDs of the saved legs
+	 * @param positions Positions the wallet currently holds
+	 * @param skipMissing Drop legs that are gone instead of giving up
+	 * @returns The legs sorted lowest band first, or null if any of them is
+	 * gone or empty
+	 */
+	private async resumeLegs(
+		legTokenIds: number[],
+		positions: PositionInfo[],
+		skipMissing: boolean = false
+	): Promise<PositionInfo[] | null> {
+		const legs: PositionInfo[] = [];
+
+		for (const tokenId of legTokenIds) {
+			const onChain = positions.find(
+				(position) => position.tokenId === tokenId
+			);
+			if (!onChain || onChain.liquidity.isZero()) {
+				console.log(`Saved leg ${tokenId} is no longer live on chain`);
+				if (skipMissing) {
+					continue;
+				}
+				return null;
+			}
+
+			const saved = await this.dataTrackingService.loadPosition(tokenId);
+			legs.push({
+				...onChain,
+				token0Amount: saved?.token0Amount,
+				token1Amount: saved?.token1Amount,
+				balancedHold0: saved?.balancedHold0,
+				balancedHold1: saved?.balancedHold1,
+			});
+		}
+
+		return legs.sort((a, b) => a.tickLower - b.tickLower);
+	}
+
+	/**
+	 * Save the strategy state and stats so a restart can resume from here
+	 * @throws Error if the state could not be saved
+	 */
+	private async checkpoint(): Promise<void> {
+		await this.dataTrackingService.saveStrategyState({
+			poolAddress: this.poolAddress,
+			legTokenIds: this.inRangePositions.legs.map((leg) => leg.tokenId),
+			ownedTokenIds: Array.from(this.ownedTokenIds),
+			rebalance: this.rebalanceProgress,
+			closeBalances: { ...this.closeBalances },
+			retainedFees: { ...this.retainedFees },
+			lastRebalancePrice: this.lastRebalancePrice,
+			lastRebalanceSqrtPriceX96: this.lastRebalanceSqrtPriceX96,
+			lastCompoundTimestamp: this.lastCompoundTimestamp,
+			statsStartTimestamp: this.stats.startTimestamp,
+			updatedAt: Math.floor(Date.now() / 1000),
+		});
+		await this.dataTrackingService.saveStrategyStats(this.stats);
 	}
 
 	/**
@@ -229,6 +715,8 @@ export class CustomPoolStrategy {
 			
 			// Close the stray position to reclaim funds
 			try {
+				await this.assertPriceNotManipulated("close stray");
+
 				console.log(`Closing stray position ${position.tokenId}...`);
 				const result = await this.liquidityManager.closePosition(position.tokenId);
 				
@@ -240,8 +728,7 @@ export class CustomPoolStrategy {
 				);
 				
 				// Add to our balances
-				this.closeBalances.token0 = this.closeBalances.token0.add(result.amount0);
-				this.closeBalances.token1 = this.closeBalances.token1.add(result.amount1);
+				this.addClosedToBalances(result);
 				
 				console.log(`Stray position ${position.tokenId} closed successfully`);
 				console.log(`Received: ${ethers.utils.formatUnits(result.amount0, this.token0Decimals!)} token0, ${ethers.utils.formatUnits(result.amount1, this.token1Decimals!)} token1`);
@@ -263,22 +750,67 @@ export class CustomPoolStrategy {
 	 */
 	private async ensureBalanced5050(): Promise<void> {
 		console.log("Checking if we need to rebalance to 50/50 token0/token1...");
+		await this.ensureTokenRatio(0.5);
+	}
 
-		// Get current balances and convert to USD value
-		const token0Balance = this.closeBalances.token0;
-		const token1Balance = this.closeBalances.token1;
+	/**
+	 * Swap only the difference needed so the wallet holds exactly the token
+	 * ratio the target ranges require at the current price
+	 * @param targetLegs The legs about to be minted
+	 * @throws Error if critical rebalancing operations fail
+	 */
+	private async ensureBalancedForRanges(targetLegs: TargetLeg[]): Promise<void> {
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const plan = computeDepositPlan(targetLegs, sqrtPriceX96);
 
-		// Get current price - always fetch fresh price for 50/50 calculation
-		const priceData = await this.oracleService.getOraclePrice();
-		const currentPrice = priceData.uniswapPrice;
+		console.log(
+			`Target ranges need ${(plan.token0ValueFraction * 100).toFixed(
+				2
+			)}% of value in token0`
+		);
 
-		// Calculate USD values
-		const token0Value =
-			parseFloat(ethers.utils.formatUnits(token0Balance, this.token0Decimals!)) * currentPrice;
-		const token1Value = parseFloat(ethers.utils.formatUnits(token1Balance, this.token1Decimals!));
+		await this.ensureTokenRatio(plan.token0ValueFraction);
+	}
 
+	/**
+	 * Swap between token0 and token1 so that token0 makes up the given share
+	 * of the total value
+	 * @param targetToken0Fraction Fraction of value to hold as token0 (0 to 1)
+	 * @param balances Amounts to rebalance, defaults to the whole close balances
+	 * @returns The given balances after the swap, moved by the amounts the
+	 * swap actually took from and paid into the wallet
+	 * @throws Error if critical rebalancing operations fail
+	 */
+	private async ensureTokenRatio(
+		targetToken0Fraction: number,
+		balances: CloseBalances = this.closeBalances
+	): Promise<CloseBalances> {
+		// Get current balances and convert to USD value
+		const token0Balance = balances.token0;
+		const token1Balance = balances.token1;
+
+		// Always read a fresh sqrt price for the ratio calculation
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+
+		// Value both balances in raw token1 units using exact pool math
+		const token0ValueRaw = quoteToken0InToken1(token0Balance, sqrtPriceX96);
+		const totalValueRaw = token0ValueRaw.add(token1Balance);
+		const targetToken0ValueRaw = totalValueRaw
+			.mul(Math.round(targetToken0Fraction * 1e8))
+			.div(1e8);
+		const targetToken1ValueRaw = totalValueRaw.sub(targetToken0ValueRaw);
+
+		const token0Value = parseFloat(
+			ethers.utils.formatUnits(token0ValueRaw, this.token1Decimals!)
+		);
+		const token1Value = parseFloat(
+			ethers.utils.formatUnits(token1Balance, this.token1Decimals!)
+		);
 		const totalValue = token0Value + token1Value;
-		const targetValue = totalValue / 2;
+		const targetToken0Value = parseFloat(
+			ethers.utils.formatUnits(targetToken0ValueRaw, this.token1Decimals!)
+		);
+		const targetToken1Value = totalValue - targetToken0Value;
 
 		console.log(
 			`token0 value: $${token0Value.toFixed(
@@ -288,17 +820,23 @@ export class CustomPoolStrategy {
 		console.log(
 			`Total value: $${totalValue.toFixed(
 				2
-			)}, Target value per token: $${targetValue.toFixed(2)}`
+			)}, Target values: $${targetToken0Value.toFixed(
+				2
+			)} token0, $${targetToken1Value.toFixed(2)} token1`
 		);
 
-		if (Math.abs(token0Value - token1Value) / totalValue > 0) {
-			console.log("Rebalancing needed to achieve 50/50 allocation");
+		if (totalValueRaw.gt(0) && !token0ValueRaw.eq(targetToken0ValueRaw)) {
+			console.log("Rebalancing needed to achieve target allocation");
+
+			await this.assertPriceNotManipulated("swap");
+
+			const walletBefore = await this.getWalletBalances();
 
-			if (token0Value > token1Value) {
+			if (token0ValueRaw.gt(targetToken0ValueRaw)) {
 				// Need to swap token0 to token1
-				const swapAmountToken0 = ethers.utils.parseUnits(
-					((token0Value - targetValue) / currentPrice).toFixed(this.token0Decimals!),
-					this.token0Decimals!
+				const swapAmountToken0 = quoteToken1InToken0(
+					token0ValueRaw.sub(targetToken0ValueRaw),
+					sqrtPriceX96
 				);
 				console.log(
 					`Swapping ${ethers.utils.formatUnits(
@@ -315,35 +853,12 @@ export class CustomPoolStrategy {
 					);
 
 					console.log("Swap completed");
-
-					// Get updated balances after swap - no need to manually subtract first
-					const actualToken0Balance =
-						await this.token0Contract?.balanceOf(this.walletAddress);
-					const actualToken1Balance =
-						await this.token1Contract?.balanceOf(this.walletAddress);
-
-					// Update closeBalances with the accurate values
-					this.closeBalances.token0 = actualToken0Balance;
-					this.closeBalances.token1 = actualToken1Balance;
-
-					console.log(
-						`Updated balances: ${ethers.utils.formatUnits(
-							this.closeBalances.token0,
-							this.token0Decimals!
-						)} token0, ${ethers.utils.formatUnits(
-							this.closeBalances.token1,
-							this.token1Decimals!
-						)} token1`
-					);
 				} catch (error) {
 					throw new Error(`Error swapping token0 to token1: ${error}`);
 				}
 			} else {
 				// Need to swap token1 to token0
-				const swapAmountToken1 = ethers.utils.parseUnits(
-					(token1Value - targetValue).toFixed(this.token1Decimals!),
-					this.token1Decimals!
-				);
+				const swapAmountToken1 = token1Balance.sub(targetToken1ValueRaw);
 				console.log(
 					`Swapping ${ethers.utils.formatUnits(
 						swapAmountToken1,
@@ -362,675 +877,1946 @@ export class CustomPoolStrategy {
 					console.log(
 						`Swap completed in tx: ${receipt.transactionHash}`
 					);
-
-					// Get updated balances after swap - no need to manually subtract first
-					const actualToken0Balance =
-						await this.token0Contract?.balanceOf(this.walletAddress);
-					const actualToken1Balance =
-						await this.token1Contract?.balanceOf(this.walletAddress);
-
-					// Update closeBalances with the accurate values
-					this.closeBalances.token0 = actualToken0Balance;
-					this.closeBalances.token1 = actualToken1Balance;
-
-					console.log(
-						`Updated balances: ${ethers.utils.formatUnits(
-							this.closeBalances.token0,
-							this.token0Decimals!
-						)} token0, ${ethers.utils.formatUnits(
-							this.closeBalances.token1,
-							this.token1Decimals!
-						)} token1`
-					);
 				} catch (error) {
 					throw new Error(`Error swapping token1 to token0: ${error}`);
 				}
 			}
-		} else {
-			console.log(
-				"Allocation is already sufficiently balanced (within 10%)"
-			);
+
+			const walletAfter = await this.getWalletBalances();
+			await this.refreshCloseBalances();
+
+			return {
+				token0: balances.token0.add(
+					walletAfter.token0.sub(walletBefore.token0)
+				),
+				token1: balances.token1.add(
+					walletAfter.token1.sub(walletBefore.token1)
+				),
+			};
 		}
+
+		console.log(
+			"Allocation is already at the target ratio"
+		);
+		return { ...balances };
 	}
 
 	/**
-	 * Rebalance and open new positions
+	 * Read the wallet's token0 and token1 balances
+	 * @returns The wallet balances
 	 */
-	private async rebalanceAndOpenPositions(): Promise<void> {
-		try {
-			console.log("Creating new positions...");
-
-			// Get current price and ticks
-			const priceData = await this.oracleService.getOraclePrice();
-			const currentPrice = priceData.uniswapPrice;
+	private async getWalletBalances(): Promise<CloseBalances> {
+		const [token0, token1] = await Promise.all([
+			this.token0Contract!.balanceOf(this.walletAddress),
+			this.token1Contract!.balanceOf(this.walletAddress),
+		]);
+		return { token0, token1 };
+	}
 
-			console.log(`Current price: ${currentPrice}`);
+	/**
+	 * Reload close balances from the wallet after a swap, leaving out the
+	 * fees kept idle by the fee policy
+	 * @param walletBalances Balances just read from the wallet, read again if unset
+	 */
+	private async refreshCloseBalances(
+		walletBalances?: CloseBalances
+	): Promise<void> {
+		const wallet = walletBalances ?? (await this.getWalletBalances());
+
+		const deployable = (balance: BigNumber, retained: BigNumber) =>
+			balance.gt(retained) ? balance.sub(retained) : BigNumber.from(0);
+		this.closeBalances.token0 = deployable(
+			wallet.token0,
+			this.retainedFees.token0
+		);
+		this.closeBalances.token1 = deployable(
+			wallet.token1,
+			this.retainedFees.token1
+		);
 
-			// Get tick spacing
-			const tickSpacing = this.oracleService.getTickSpacing();
+		console.log(
+			`Updated balances: ${ethers.utils.formatUnits(
+				this.closeBalances.token0,
+				this.token0Decimals!
+			)} token0, ${ethers.utils.formatUnits(
+				this.closeBalances.token1,
+				this.token1Decimals!
+			)} token1`
+		);
 
-			const widthPercent = this.config.strategy.widthPercent;
+		await this.checkpoint();
+	}
 
-			// Calculate price range based on width percent
-			// If current price is 2500 and width is 20%, the range would be 500
-			const priceRange = currentPrice * (widthPercent / 100);
+	/**
+	 * Drive the rebalance in flight through its remaining steps, checkpointing
+	 * after each one. A failing step is recorded and left in place, so the
+	 * next loop iteration or a restart retries it instead of starting over
+	 */
+	private async runRebalance(): Promise<void> {
+		const progress = this.rebalanceProgress!;
 
-			// Calculate upper and lower bounds with 5% overlap
-			const overlapAmount = priceRange * 0.05;
+		try {
+			while (progress.phase !== RebalancePhase.DONE) {
+				console.log(`Rebalance step: ${progress.phase}`);
+
+				switch (progress.phase) {
+					case RebalancePhase.CLOSING:
+						await this.runClosingStep(progress);
+						break;
+					case RebalancePhase.SWAPPING:
+						await this.runSwappingStep(progress);
+						break;
+					case RebalancePhase.MINTING:
+						await this.runMintingStep(progress);
+						break;
+					default:
+						throw new Error(`Unknown rebalance phase: ${progress.phase}`);
+				}
 
-			// Calculate price points
-			const upperPositionUpperPrice = currentPrice + priceRange / 2;
-			const transitionPrice = currentPrice - overlapAmount;
-			const lowerPositionLowerPrice = currentPrice - priceRange / 2;
+				this.rebalanceNeedsReconcile = false;
+				await this.checkpoint();
+			}
 
 			console.log(
-				`Width percent: ${widthPercent}%, Price range: ${priceRange.toFixed(
-					2
-				)}`
-			);
-			console.log(
-				`Overlap amount: ${overlapAmount.toFixed(2)} (5% of range)`
-			);
-			console.log(
-				`Price points: upper=${upperPositionUpperPrice.toFixed(
-					2
-				)}, transition=${transitionPrice.toFixed(
-					2
-				)}, lower=${lowerPositionLowerPrice.toFixed(2)}`
+				`Successfully created ${this.inRangePositions.legs.length} positions`
 			);
 
-			// Calculate raw ticks using the correct Uniswap V3 formula
-			const upperPositionUpperTick = this.priceToTick(
-				upperPositionUpperPrice
-			);
-			const transitionTick = this.priceToTick(transitionPrice);
-			const lowerPositionLowerTick = this.priceToTick(
-				lowerPositionLowerPrice
-			);
+			this.rebalanceProgress = null;
 
-			console.log(
-				`Raw ticks: upper=${upperPositionUpperTick}, transition=${transitionTick}, lower=${lowerPositionLowerTick}`
-			);
+			// Update the rebalance baseline with the current sqrt price
+			await this.updateRebalanceBaseline();
+		} catch (error) {
+			progress.attempts += 1;
+			progress.lastError = String(error);
+			this.rebalanceNeedsReconcile = true;
 
-			// Align ticks to tick spacing with proper rounding:
-			// - Lower bounds: round down (towards negative infinity)
-			// - Upper bounds: round up (towards positive infinity)
-			const alignedUpperPositionUpperTick = this.alignTick(
-				upperPositionUpperTick,
-				tickSpacing,
-				true // Round up
-			);
-			const alignedTransitionTick = this.alignTick(
-				transitionTick,
-				tickSpacing,
-				false // Round down for cleaner boundary
-			);
-			const alignedLowerPositionLowerTick = this.alignTick(
-				lowerPositionLowerTick,
-				tickSpacing,
-				false // Round down
+			console.error(
+				`Rebalance failed at step ${progress.phase} (attempt ${progress.attempts}), it will resume from this step:`,
+				error
 			);
 
-			console.log(
-				`Aligned ticks: upper=${alignedUpperPositionUpperTick}, transition=${alignedTransitionTick}, lower=${alignedLowerPositionLowerTick}`
+			await this.dataTrackingService.recordRebalanceFailed(
+				`${progress.phase.toLowerCase()} step`,
+				error
 			);
+			await this.checkpoint();
+		}
+	}
 
-			// Create position tick ranges
-			// Lower position: token1 only, from lower bound to transition point
-			const lowerPositionTicks = {
-				lower: alignedLowerPositionLowerTick,
-				upper: alignedTransitionTick,
-			};
+	/**
+	 * CLOSING: close the old legs that are still open in one multicall
+	 * @param progress The rebalance in flight
+	 */
+	private async runClosingStep(progress: RebalanceProgress): Promise<void> {
+		let legs = this.inRangePositions.legs.filter((leg) =>
+			progress.closingTokenIds.includes(leg.tokenId)
+		);
 
-			// Upper position: token0 only, from transition point to upper bound
-			const upperPositionTicks = {
-				lower: alignedTransitionTick,
-				upper: alignedUpperPositionUpperTick,
-			};
+		// After a failure the close may have gone through without being booked
+		if (this.rebalanceNeedsReconcile) {
+			const open: PositionInfo[] = [];
+			for (const leg of legs) {
+				if (await this.isPositionLive(leg.tokenId)) {
+					open.push(leg);
+				} else {
+					console.log(`Leg ${leg.tokenId} is already closed`);
+				}
+			}
+			if (open.length < legs.length) {
+				await this.refreshCloseBalances();
+			}
+			legs = open;
+		}
 
-			// Calculate the actual prices at the aligned ticks for reporting
-			const alignedUpperPositionUpperPrice = this.tickToPrice(
-				alignedUpperPositionUpperTick
-			);
-			const alignedTransitionPrice = this.tickToPrice(
-				alignedTransitionTick
-			);
-			const alignedLowerPositionLowerPrice = this.tickToPrice(
-				alignedLowerPositionLowerTick
+		if (legs.length > 0) {
+			await this.closeLegs(
+				legs,
+				legs.map((_, i) => this.legLabel(i, legs.length))
 			);
+		}
 
-			console.log(`===== Position Configuration =====`);
-			console.log(
-				`Lower position (token1 only): Price range ${alignedLowerPositionLowerPrice} to ${alignedTransitionPrice}`
-			);
-			console.log(
-				`Lower position: Tick range [${lowerPositionTicks.lower}, ${lowerPositionTicks.upper}]`
-			);
-			console.log(
-				`Upper position (token0 only): Price range ${alignedTransitionPrice} to ${alignedUpperPositionUpperPrice}`
-			);
-			console.log(
-				`Upper position: Tick range [${upperPositionTicks.lower}, ${upperPositionTicks.upper}]`
-			);
-			console.log(
-				`Positions meet at tick ${alignedTransitionTick} (price: ${alignedTransitionPrice})`
-			);
+		console.log(
+			`Positions closed, total balances: ${ethers.utils.formatUnits(
+				this.closeBalances.token0,
+				this.token0Decimals!
+			)} token0, ${ethers.utils.formatUnits(
+				this.closeBalances.token1,
+				this.token1Decimals!
+			)} token1`
+		);
+		console.log(
+			`Total fees collected: ${ethers.utils.formatUnits(
+				this.stats.totalFeesCollectedToken0,
+				this.token0Decimals!
+			)} token0, ${ethers.utils.formatUnits(
+				this.stats.totalFeesCollectedToken1,
+				this.token1Decimals!
+			)} token1`
+		);
 
-			// Calculate total value of tokens
-			const totalToken0 = this.closeBalances.token0;
-			const totalToken1 = this.closeBalances.token1;
-			let totalToken1Left;
+		// Update rebalance stats
+		this.stats.lastRebalanceTimestamp = Math.floor(Date.now() / 1000);
+		this.stats.totalRebalanceCount = (this.stats.totalRebalanceCount || 0) + 1;
 
-			// Calculate value in token1 units (token0)
-			const totalValueInToken1 = totalToken1.add(
-				totalToken0
-					.mul(BigNumber.from(Math.floor(currentPrice * Math.pow(10, this.token1Decimals!))))
-					.div(BigNumber.from(10).pow(this.token0Decimals!))
-			);
+		// Reset positions
+		this.inRangePositions = { legs: [] };
+		progress.closingTokenIds = [];
+		progress.phase = RebalancePhase.SWAPPING;
+	}
 
-			console.log(
-				`Total value: $${ethers.utils.formatUnits(
-					totalValueInToken1,
-					this.token1Decimals!
-				)}`
-			);
+	/**
+	 * SWAPPING: pick the new layout at the current price and swap the wallet
+	 * to the ratio it needs. Swapping to a target ratio is idempotent, so a
+	 * retry only swaps whatever difference is left
+	 * @param progress The rebalance in flight
+	 */
+	private async runSwappingStep(progress: RebalanceProgress): Promise<void> {
+		// A swap may have gone through without being booked
+		if (this.rebalanceNeedsReconcile) {
+			await this.refreshCloseBalances();
+		}
 
-			// Try to create upper position first
-			try {
+		const priceData = await this.oracleService.getOraclePrice();
+		console.log(`Latest price after closing positions: ${priceData.uniswapPrice}`);
+
+		// Ask the configured range policy where the legs should sit
+		const targetLegs = await this.rangeStrategy.computeTargetRanges(
+			this.buildRangeContext(priceData)
+		);
+
+		// Market moved, so the token split changed
+		if (this.rebalanceMode === "atomic") {
+			await this.swapToRatioViaRouterIfNeeded(targetLegs);
+		} else if (this.depositRatio === "range") {
+			await this.ensureBalancedForRanges(targetLegs);
+		} else {
+			await this.ensureBalanced5050();
+		}
+
+		progress.targetLegs = targetLegs;
+		progress.phase = RebalancePhase.MINTING;
+	}
+
+	/**
+	 * MINTING: mint the target legs that are not live yet. Legs are booked
+	 * one by one, so a retry only mints the ones still missing
+	 * @param progress The rebalance in flight
+	 */
+	private async runMintingStep(progress: RebalanceProgress): Promise<void> {
+		const targetLegs = progress.targetLegs;
+
+		// A mint may have gone through without being booked: adopt it
+		if (this.rebalanceNeedsReconcile) {
+			await this.adoptMintedLegs(targetLegs);
+		}
+
+		const remaining = targetLegs.filter(
+			(target) =>
+				!this.inRangePositions.legs.some((leg) =>
+					this.matchesRange(leg, target)
+				)
+		);
+
+		if (remaining.length > 0) {
+			const priceData = await this.oracleService.getOraclePrice();
+			console.log("Creating new positions...");
+			console.log(`Current price: ${priceData.uniswapPrice}`);
+			console.log(`Range strategy: ${this.rangeStrategy.name}`);
+
+			remaining.forEach((leg, index) =>
 				console.log(
-					`Minting upper position with ticks [${
-						upperPositionTicks.lower
-					}, ${
-						upperPositionTicks.upper
-					}] using ${ethers.utils.formatUnits(
-						totalToken0,
-						this.token0Decimals!
-					)} token0 and ${ethers.utils.formatUnits(
-						totalToken1,
-						this.token1Decimals!
-					)} token1`
+					`${this.legLabel(index, remaining.length)} position: Tick range [${
+						leg.tickLower
+					}, ${leg.tickUpper}]`
+				)
+			);
+
+			// Calculate value in token1 units (token0 quoted at the pool sqrt price)
+			const totalValueInToken1 = this.closeBalances.token1.add(
+				quoteToken0InToken1(
+					this.closeBalances.token0,
+					await this.getCurrentSqrtPriceX96()
+				)
+			);
+			console.log(
+				`Total value: $${ethers.utils.formatUnits(
+					totalValueInToken1,
+					this.token1Decimals!
+				)}`
+			);
+
+			// Minted legs go live immediately so each one is checkpointed
+			if (this.depositRatio === "range") {
+				await this.mintLegsForDepositPlan(
+					remaining,
+					this.inRangePositions.legs
 				);
+			} else {
+				await this.mintLegsByWeight(
+					remaining,
+					priceData.tick,
+					this.inRangePositions.legs
+				);
+			}
+		}
+
+		this.inRangePositions.legs.sort((a, b) => a.tickLower - b.tickLower);
+		progress.phase = RebalancePhase.DONE;
+	}
+
+	/**
+	 * Take over positions that match the target layout but were minted after
+	 * the last checkpoint
+	 * @param targetLegs The layout being minted
+	 */
+	private async adoptMintedLegs(targetLegs: TargetLeg[]): Promise<void> {
+		const positions = await this.liquidityManager.getUserPositions(true);
+
+		for (const target of targetLegs) {
+			const alreadyLive = this.inRangePositions.legs.some((leg) =>
+				this.matchesRange(leg, target)
+			);
+			const orphan = positions.find(
+				(position) =>
+					this.matchesRange(position, target) &&
+					!position.liquidity.isZero() &&
+					!this.inRangePositions.legs.some(
+						(leg) => leg.tokenId === position.tokenId
+					)
+			);
+
+			if (!alreadyLive && orphan) {
+				console.log(
+					`Adopting position ${orphan.tokenId} minted before the last checkpoint`
+				);
+				this.ownedTokenIds.add(orphan.tokenId);
+				// Deposits are unknown, so the current amounts stand in for them
+				this.inRangePositions.legs.push({
+					...orphan,
+					token0Amount: orphan.amount0,
+					token1Amount: orphan.amount1,
+				});
+				await this.refreshCloseBalances();
+			}
+		}
+	}
+
+	/**
+	 * Whether a position still exists and holds liquidity
+	 * @param tokenId ID of the position token
+	 * @returns False once the position has been closed or burned
+	 */
+	private async isPositionLive(tokenId: number): Promise<boolean> {
+		try {
+			const position = await this.liquidityManager.getPositionInfo(tokenId);
+			return !position.liquidity.isZero();
+		} catch (error) {
+			// The position manager reverts for burned tokens
+			return false;
+		}
+	}
+
+	/**
+	 * Whether a position covers exactly the given tick range
+	 * @param position The position
+	 * @param range The tick range
+	 * @returns True if both bounds match
+	 */
+	private matchesRange(position: TickRange, range: TickRange): boolean {
+		return (
+			position.tickLower === range.tickLower &&
+			position.tickUpper === range.tickUpper
+		);
+	}
+
+	/**
+	 * Fund legs greedily from the wallet: legs containing the price take their
+	 * weighted share of token0 plus the token1 it pairs with, the rest is split
+	 * by weight among the single-sided legs
+	 * @param targetLegs The legs to mint
+	 * @param currentTick Current pool tick
+	 * @param mintedLegs Collects the legs minted so far
+	 */
+	private async mintLegsByWeight(
+		targetLegs: TargetLeg[],
+		currentTick: number,
+		mintedLegs: PositionInfo[]
+	): Promise<void> {
+		// Classify legs by which tokens they need at the current tick:
+		// - mixed: range contains the current tick, needs token0 and token1
+		// - above: range is above the current tick, token0 only
+		// - below: range is below the current tick, token1 only
+		const indexed = targetLegs.map((leg, index) => ({ leg, index }));
+		const mixedLegs = indexed.filter(
+			({ leg }) => leg.tickLower <= currentTick && currentTick < leg.tickUpper
+		);
+		const aboveLegs = indexed.filter(({ leg }) => leg.tickLower > currentTick);
+		const belowLegs = indexed.filter(({ leg }) => leg.tickUpper <= currentTick);
+
+		// Remaining weights of the legs still to be funded with each token
+		let token0Weight = [...mixedLegs, ...aboveLegs].reduce(
+			(sum, { leg }) => sum + leg.weight,
+			0
+		);
+		let mixedToken1Weight = mixedLegs.reduce(
+			(sum, { leg }) => sum + leg.weight,
+			0
+		);
+		let belowToken1Weight = belowLegs.reduce(
+			(sum, { leg }) => sum + leg.weight,
+			0
+		);
+
+		// Mixed legs first: they take their share of token0 and pair it
+		// with as much token1 as the range needs
+		for (const { leg, index } of mixedLegs) {
+			const amount0 = this.weightedShare(
+				this.closeBalances.token0,
+				leg.weight,
+				token0Weight
+			);
+			const amount1 = this.weightedShare(
+				this.closeBalances.token1,
+				leg.weight,
+				mixedToken1Weight
+			);
+			token0Weight -= leg.weight;
+			mixedToken1Weight -= leg.weight;
+
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				leg,
+				amount0,
+				amount1,
+				await this.getCurrentSqrtPriceX96()
+			);
+			mintedLegs.push(
+				await this.mintLeg(
+					leg,
+					this.legLabel(index, targetLegs.length),
+					amount0,
+					amount1,
+					amount0Min,
+					amount1Min
+				)
+			);
+		}
+
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+
+		// Legs above the price hold token0 only
+		for (const { leg, index } of aboveLegs) {
+			const amount0 = this.weightedShare(
+				this.closeBalances.token0,
+				leg.weight,
+				token0Weight
+			);
+			token0Weight -= leg.weight;
+
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				leg,
+				amount0,
+				BigNumber.from(0),
+				sqrtPriceX96
+			);
+			mintedLegs.push(
+				await this.mintLeg(
+					leg,
+					this.legLabel(index, targetLegs.length),
+					amount0,
+					BigNumber.from(0),
+					amount0Min,
+					amount1Min
+				)
+			);
+		}
+
+		// Legs below the price hold whatever token1 is left
+		for (const { leg, index } of belowLegs) {
+			const amount1 = this.weightedShare(
+				this.closeBalances.token1,
+				leg.weight,
+				belowToken1Weight
+			);
+			belowToken1Weight -= leg.weight;
+
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				leg,
+				BigNumber.from(0),
+				amount1,
+				sqrtPriceX96
+			);
+			mintedLegs.push(
+				await this.mintLeg(
+					leg,
+					this.legLabel(index, targetLegs.length),
+					BigNumber.from(0),
+					amount1,
+					amount0Min,
+					amount1Min
+				)
+			);
+		}
+	}
+
+	/**
+	 * Fund each leg with exactly the token amounts its range needs for its
+	 * weighted share of value at the current price
+	 * @param targetLegs The legs to mint
+	 * @param mintedLegs Collects the legs minted so far
+	 */
+	private async mintLegsForDepositPlan(
+		targetLegs: TargetLeg[],
+		mintedLegs: PositionInfo[]
+	): Promise<void> {
+		// Plan on a fresh price, since the balancing swap may have moved it
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const plan = computeDepositPlan(targetLegs, sqrtPriceX96);
+
+		const total0 = this.closeBalances.token0;
+		const total1 = this.closeBalances.token1;
+
+		for (let i = 0; i < targetLegs.length; i++) {
+			const { token0Share, token1Share } = plan.legs[i];
+			const amount0 = this.weightedShare(total0, token0Share, 1);
+			const amount1 = this.weightedShare(total1, token1Share, 1);
+
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				targetLegs[i],
+				amount0,
+				amount1,
+				sqrtPriceX96
+			);
+			mintedLegs.push(
+				await this.mintLeg(
+					targetLegs[i],
+					this.legLabel(i, targetLegs.length),
+					amount0,
+					amount1,
+					amount0Min,
+					amount1Min
+				)
+			);
+		}
+	}
+
+	/**
+	 * Slippage minimums for adding liquidity: the amounts the liquidity that
+	 * the desired amounts buy at the current price would take, less the
+	 * configured slippage. Whichever token is not the limiting one is only
+	 * partly used, so its minimum must not be derived from its desired amount
+	 * @param range Tick range of the position
+	 * @param amount0Desired Desired amount of token0
+	 * @param amount1Desired Desired amount of token1
+	 * @param sqrtPriceX96 Pool sqrt price the amounts were sized at
+	 * @returns Minimum amounts of token0 and token1
+	 */
+	private mintMinimums(
+		range: TickRange,
+		amount0Desired: BigNumber,
+		amount1Desired: BigNumber,
+		sqrtPriceX96: BigNumber
+	): { amount0Min: BigNumber; amount1Min: BigNumber } {
+		const sqrtRatioLower = getSqrtRatioAtTick(range.tickLower);
+		const sqrtRatioUpper = getSqrtRatioAtTick(range.tickUpper);
+		const { amount0, amount1 } = getAmountsForLiquidity(
+			sqrtPriceX96,
+			sqrtRatioLower,
+			sqrtRatioUpper,
+			getLiquidityForAmounts(
+				sqrtPriceX96,
+				sqrtRatioLower,
+				sqrtRatioUpper,
+				amount0Desired,
+				amount1Desired
+			)
+		);
+
+		// Basis points keep two decimals of the percentage
+		const keepBps = 10000 - Math.round(this.mintSlippagePercent * 100);
+		return {
+			amount0Min: amount0.mul(keepBps).div(10000),
+			amount1Min: amount1.mul(keepBps).div(10000),
+		};
+	}
+
+	/**
+	 * Mint a single leg and record it
+	 * @param leg Target tick range of the leg
+	 * @param label Human readable leg name used in logs and tracking
+	 * @param amount0Desired Desired amount of token0
+	 * @param amount1Desired Desired amount of token1
+	 * @param amount0Min Minimum amount of token0
+	 * @param amount1Min Minimum amount of token1
+	 * @returns Position info of the minted leg
+	 */
+	private async mintLeg(
+		leg: TickRange,
+		label: string,
+		amount0Desired: BigNumber,
+		amount1Desired: BigNumber,
+		amount0Min: BigNumber,
+		amount1Min: BigNumber
+	): Promise<PositionInfo> {
+		await this.assertPriceNotManipulated(`mint ${label}`);
+
+		try {
+			console.log(
+				`Minting ${label} position with ticks [${leg.tickLower}, ${
+					leg.tickUpper
+				}] using ${ethers.utils.formatUnits(
+					amount0Desired,
+					this.token0Decimals!
+				)} token0 and ${ethers.utils.formatUnits(
+					amount1Desired,
+					this.token1Decimals!
+				)} token1`
+			);
+
+			const result = await this.liquidityManager.mintPosition(
+				leg.tickLower,
+				leg.tickUpper,
+				amount0Desired,
+				amount1Desired,
+				amount0Min,
+				amount1Min
+			);
+
+			const positionInfo = await this.bookMintedLeg(leg, label, result);
+
+			return positionInfo;
+		} catch (error: any) {
+			console.error(`Error creating ${label} position`);
+			await this.dataTrackingService.recordPositionCreationFailed(
+				label,
+				"Error creating position: " + error.toString(),
+				{ tickLower: leg.tickLower, tickUpper: leg.tickUpper }
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Book a freshly minted leg: load its position info, record the creation
+	 * and take the used amounts off the close balances
+	 * @param leg Tick range of the leg
+	 * @param label Human readable leg name used in logs
+	 * @param result Token ID and amounts used by the mint
+	 * @returns Position info of the minted leg
+	 */
+	private async bookMintedLeg(
+		leg: TickRange,
+		label: string,
+		result: MintedPosition
+	): Promise<PositionInfo> {
+		this.ownedTokenIds.add(result.tokenId);
+
+		// Get position info for the new leg
+		const positionInfo = await this.liquidityManager.getPositionInfo(
+			result.tokenId
+		);
+
+		// Update position with actual amounts used
+		positionInfo.token0Amount = result.amount0Used;
+		positionInfo.token1Amount = result.amount1Used;
+
+		// 50/50 benchmark for impermanent loss accounting
+		const balanced = balancedHoldingsFor(
+			result.amount0Used,
+			result.amount1Used,
+			await this.getCurrentSqrtPriceX96()
+		);
+		positionInfo.balancedHold0 = balanced.amount0;
+		positionInfo.balancedHold1 = balanced.amount1;
+
+		console.log(
+			`${label} position created with token ID: ${result.tokenId}`
+		);
+		console.log(
+			`Actual amounts used: ${ethers.utils.formatUnits(
+				result.amount0Used,
+				this.token0Decimals!
+			)} token0, ${ethers.utils.formatUnits(
+				result.amount1Used,
+				this.token1Decimals!
+			)} token1`
+		);
+
+		// Record this position creation in the tracking system
+		await this.dataTrackingService.recordPositionCreated(
+			result.tokenId,
+			{
+				...positionInfo,
+				priceLower: this.liquidityManager.tickToPrice(
+					leg.tickLower,
+					this.token0Decimals!,
+					this.token1Decimals!
+				),
+				priceUpper: this.liquidityManager.tickToPrice(
+					leg.tickUpper,
+					this.token0Decimals!,
+					this.token1Decimals!
+				),
+			}
+		);
+
+		// Update remaining balances
+		this.closeBalances.token0 = this.closeBalances.token0.sub(
+			result.amount0Used
+		);
+		this.closeBalances.token1 = this.closeBalances.token1.sub(
+			result.amount1Used
+		);
+
+		await this.checkpoint();
+
+		return positionInfo;
+	}
+
+	/**
+	 * Close a single managed leg, booking its fees and returned balances
+	 * @param position The leg to close
+	 * @param label Human readable leg name used in logs
+	 */
+	private async closeLeg(position: PositionInfo, label: string): Promise<void> {
+		await this.closeLegs([position], [label]);
+	}
+
+	/**
+	 * Close several managed legs in one multicall transaction, booking their
+	 * fees and returned balances
+	 * @param positions The legs to close
+	 * @param labels Human readable leg names used in logs, same order
+	 */
+	private async closeLegs(
+		positions: PositionInfo[],
+		labels: string[]
+	): Promise<void> {
+		if (positions.length === 0) {
+			return;
+		}
+
+		await this.assertPriceNotManipulated(`close ${labels.join(", ")}`);
+
+		console.log(
+			`Closing ${labels.join(", ")} position(s) ${positions
+				.map((position) => position.tokenId)
+				.join(", ")}...`
+		);
+		const results = await this.liquidityManager.closePositionsBatch(
+			positions.map((position) => position.tokenId)
+		);
+
+		await this.bookClosedLegs(results, positions, labels);
+	}
+
+	/**
+	 * Book closed legs: fee stats, profit and loss, tracking records and
+	 * returned balances
+	 * @param results Amounts returned by the closes
+	 * @param positions The closed legs, same order
+	 * @param labels Human readable leg names used in logs, same order
+	 */
+	private async bookClosedLegs(
+		results: ClosedPosition[],
+		positions: PositionInfo[],
+		labels: string[]
+	): Promise<void> {
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const legPnls: LegPnl[] = [];
+
+		for (let i = 0; i < results.length; i++) {
+			const result = results[i];
+
+			// Update fee collection stats
+			this.stats.totalFeesCollectedToken0 =
+				this.stats.totalFeesCollectedToken0.add(result.fees0);
+			this.stats.totalFeesCollectedToken1 =
+				this.stats.totalFeesCollectedToken1.add(result.fees1);
+
+			console.log(
+				`${labels[i]} position fees collected: ${ethers.utils.formatUnits(
+					result.fees0,
+					this.token0Decimals!
+				)} token0, ${ethers.utils.formatUnits(
+					result.fees1,
+					this.token1Decimals!
+				)} token1`
+			);
+
+			// Record position closed event
+			await this.dataTrackingService.recordPositionClosed(
+				result.tokenId,
+				result.principal0.add(result.fees0),
+				result.principal1.add(result.fees1)
+			);
+
+			// Record fees collected event
+			await this.dataTrackingService.recordFeesCollected(
+				result.tokenId,
+				result.fees0,
+				result.fees1
+			);
+
+			// Update balances
+			this.addClosedToBalances(result);
+
+			const deposited0 = positions[i].token0Amount || BigNumber.from(0);
+			const deposited1 = positions[i].token1Amount || BigNumber.from(0);
+			const legPnl = computeLegPnl(
+				{
+					tokenId: result.tokenId,
+					deposited0,
+					deposited1,
+					// Legs opened before benchmarks were tracked fall back to HODL
+					balancedHold0: positions[i].balancedHold0 || deposited0,
+					balancedHold1: positions[i].balancedHold1 || deposited1,
+					principal0: result.principal0,
+					principal1: result.principal1,
+					fees0: result.fees0,
+					fees1: result.fees1,
+				},
+				sqrtPriceX96
+			);
+			this.logPnl(`${labels[i]} position ${result.tokenId}`, legPnl);
+			legPnls.push(legPnl);
+		}
+
+		if (legPnls.length > 0) {
+			this.stats.cycleCount += 1;
+			const cyclePnl = summarizeCycle(this.stats.cycleCount, legPnls);
+			this.logPnl(`Cycle ${cyclePnl.cycle}`, cyclePnl);
+			await this.dataTrackingService.recordCyclePnl(cyclePnl);
+		}
+
+		await this.checkpoint();
+	}
+
+	/**
+	 * Log profit and loss against the HODL and 50/50 benchmarks
+	 * @param label What the figures belong to
+	 * @param pnl Profit and loss in raw token1
+	 */
+	private logPnl(label: string, pnl: Omit<LegPnl, "tokenId">): void {
+		const format = (value: BigNumber) =>
+			ethers.utils.formatUnits(value, this.token1Decimals!);
+
+		console.log(
+			`${label}: principal ${format(pnl.principalValue)}, fees ${format(
+				pnl.feeValue
+			)} token1; IL vs HODL ${format(
+				pnl.ilVsHodl
+			)} (${pnl.ilVsHodlPercent.toFixed(4)}%), IL vs 50/50 ${format(
+				pnl.ilVsBalanced
+			)} (${pnl.ilVsBalancedPercent.toFixed(4)}%); net vs HODL ${format(
+				pnl.netVsHodl
+			)}, net vs 50/50 ${format(pnl.netVsBalanced)}`
+		);
+	}
+
+	/**
+	 * Add what a close left in the wallet to the close balances. Under the
+	 * "keep" fee policy the fees stay idle and only the principal is redeployed
+	 * @param result Amounts returned by the close
+	 */
+	private addClosedToBalances(result: ClosedPosition): void {
+		this.ownedTokenIds.delete(result.tokenId);
+
+		const keepFees = this.liquidityManager.getFeePolicyMode() === "keep";
+		this.closeBalances.token0 = this.closeBalances.token0.add(
+			keepFees ? result.principal0 : result.amount0
+		);
+		this.closeBalances.token1 = this.closeBalances.token1.add(
+			keepFees ? result.principal1 : result.amount1
+		);
+
+		if (keepFees) {
+			this.retainedFees.token0 = this.retainedFees.token0.add(
+				result.retainedFees0
+			);
+			this.retainedFees.token1 = this.retainedFees.token1.add(
+				result.retainedFees1
+			);
+		}
+	}
+
+	/**
+	 * Run the In-Range strategy
+	 * @param latestPrice Price pushed by the price stream, fetched if omitted
+	 */
+	private async strategy(latestPrice?: PriceData): Promise<void> {
+		console.log("Running strategy check...");
+
+		// Get current price and tick
+		const priceData =
+			latestPrice ?? (await this.oracleService.getOraclePrice());
+		const currentPrice = priceData.uniswapPrice;
+		const currentTick = priceData.tick;
+
+		console.log(
+			`Current price: ${currentPrice}, Current tick: ${currentTick}`
+		);
+		console.log(
+			`Last rebalance price: ${this.lastRebalancePrice.toFixed(2)}`
+		);
+
+		// Finish a failed or interrupted rebalance before anything else
+		if (this.rebalanceProgress) {
+			if (!(await this.isPriceSafe("rebalance"))) {
+				console.log("Rebalance will resume once the pool price can be trusted");
+				return;
+			}
+			await this.runRebalance();
+			return;
+		}
+
+		const isBeyondTickThreshold = this.rangeStrategy.shouldRebalance(
+			this.buildDecisionContext(priceData),
+			this.inRangePositions
+		);
+
+		console.log(
+			`Is price beyond configured thresholds: ${isBeyondTickThreshold}`
+		);
+
+		if (isBeyondTickThreshold) {
+			// Do not start closing legs while the pool price looks manipulated
+			if (!(await this.isPriceSafe("rebalance"))) {
+				console.log("Skipping rebalance until the pool price can be trusted");
+				return;
+			}
+
+			if (this.rebalanceMode === "leapfrog") {
+				const handled = await this.leapfrogRebalance(priceData);
+				if (handled) {
+					return;
+				}
+			}
+
+			if (this.rebalanceMode === "atomic") {
+				await this.atomicRebalance();
+				return;
+			}
+
+			await this.fullRebalance();
+			return;
+		}
+
+		if (this.compounding !== null) {
+			await this.compoundFees();
+		}
+
+		if (this.topUpMinValue !== null) {
+			await this.topUpLegsFromWallet();
+		}
+	}
+
+	/**
+	 * Collect the fees earned by the live legs, swap them to the ratio the
+	 * ranges need and add them back, at most once per compounding interval
+	 * and only when the fees are worth enough compared to the gas it costs
+	 */
+	private async compoundFees(): Promise<void> {
+		const legs = this.inRangePositions.legs;
+		const now = Math.floor(Date.now() / 1000);
+		if (
+			legs.length === 0 ||
+			now - this.lastCompoundTimestamp < this.compounding!.intervalSeconds
+		) {
+			return;
+		}
+		this.lastCompoundTimestamp = now;
+
+		try {
+			const pendingFees = await this.getUnrealizedFees();
+			const pending0 = pendingFees.reduce(
+				(sum, fees) => sum.add(fees.amount0),
+				BigNumber.from(0)
+			);
+			const pending1 = pendingFees.reduce(
+				(sum, fees) => sum.add(fees.amount1),
+				BigNumber.from(0)
+			);
+
+			const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+			const feeValue = parseFloat(
+				ethers.utils.formatUnits(
+					quoteToken0InToken1(pending0, sqrtPriceX96).add(pending1),
+					this.token1Decimals!
+				)
+			);
+
+			const legsWithFees = legs.filter(
+				(_, i) =>
+					!pendingFees[i].amount0.isZero() ||
+					!pendingFees[i].amount1.isZero()
+			);
+			const gasCostValue = await this.estimateCompoundingGasCost(
+				legsWithFees.length,
+				sqrtPriceX96
+			);
+			if (gasCostValue === null) {
+				console.log(
+					"Cannot value gas in token1 for this pool, skipping compounding"
+				);
+				return;
+			}
+
+			const minFeeValue = gasCostValue * this.compounding!.minFeeToGasRatio;
+			console.log(
+				`Pending fees worth ${feeValue.toFixed(
+					6
+				)} token1, compounding gas cost ${gasCostValue.toFixed(
+					6
+				)} token1 (minimum fees ${minFeeValue.toFixed(6)})`
+			);
+			if (legsWithFees.length === 0 || feeValue < minFeeValue) {
+				return;
+			}
+
+			await this.assertPriceNotManipulated("compound fees");
+
+			// Collect without converting, the fees go back into the ranges
+			const collected: CloseBalances = {
+				token0: BigNumber.from(0),
+				token1: BigNumber.from(0),
+			};
+			for (const leg of legsWithFees) {
+				const fees = await this.liquidityManager.collectFees(leg.tokenId);
+				collected.token0 = collected.token0.add(fees.amount0);
+				collected.token1 = collected.token1.add(fees.amount1);
+
+				this.stats.totalFeesCollectedToken0 =
+					this.stats.totalFeesCollectedToken0.add(fees.amount0);
+				this.stats.totalFeesCollectedToken1 =
+					this.stats.totalFeesCollectedToken1.add(fees.amount1);
+
+				await this.dataTrackingService.recordFeesCollected(
+					leg.tokenId,
+					fees.amount0,
+					fees.amount1
+				);
+			}
+
+			this.closeBalances.token0 = this.closeBalances.token0.add(
+				collected.token0
+			);
+			this.closeBalances.token1 = this.closeBalances.token1.add(
+				collected.token1
+			);
+
+			// Swap only the collected fees, then follow them through the swap
+			const plan = computeDepositPlan(
+				this.liveLegTargets(sqrtPriceX96),
+				sqrtPriceX96
+			);
+			const compound = await this.ensureTokenRatio(
+				plan.token0ValueFraction,
+				collected
+			);
+
+			await this.increaseLegs(
+				compound.token0.gt(0) ? compound.token0 : BigNumber.from(0),
+				compound.token1.gt(0) ? compound.token1 : BigNumber.from(0)
+			);
+
+			console.log(
+				`Compounded ${ethers.utils.formatUnits(
+					collected.token0,
+					this.token0Decimals!
+				)} token0 and ${ethers.utils.formatUnits(
+					collected.token1,
+					this.token1Decimals!
+				)} token1 of fees into the live legs`
+			);
+
+			await this.dataTrackingService.recordFeesCompounded(
+				collected.token0,
+				collected.token1,
+				feeValue,
+				gasCostValue
+			);
+		} catch (error) {
+			console.error("Error compounding fees:", error);
+			await this.dataTrackingService.recordStrategyError(
+				"compoundFees",
+				error
+			);
+		}
+	}
+
+	/**
+	 * Fees earned by each live leg that have not been collected yet, computed
+	 * from the pool's fee growth values
+	 * @returns Uncollected fees per leg, in leg order
+	 */
+	public async getUnrealizedFees(): Promise<UncollectedFees[]> {
+		const fees: UncollectedFees[] = [];
+		for (const leg of this.inRangePositions.legs) {
+			const legFees = await this.liquidityManager.getUncollectedFees(
+				leg.tokenId
+			);
+			console.log(
+				`Position ${leg.tokenId} unrealized fees: ${ethers.utils.formatUnits(
+					legFees.amount0,
+					this.token0Decimals!
+				)} token0, ${ethers.utils.formatUnits(
+					legFees.amount1,
+					this.token1Decimals!
+				)} token1`
+			);
+			fees.push(legFees);
+		}
+		return fees;
+	}
+
+	/**
+	 * Value everything the strategy holds at the current pool price: wallet
+	 * balances, the principal underlying each live leg and uncollected fees
+	 * @returns Portfolio valuation in raw token units and token1 value
+	 */
+	public async getPortfolioValuation(): Promise<PortfolioValuation> {
+		const slot0 = await this.poolContract.slot0();
+		const poolState = {
+			sqrtPriceX96: BigNumber.from(slot0.sqrtPriceX96),
+			tick: slot0.tick,
+		};
+
+		const [wallet0, wallet1] = await Promise.all([
+			this.token0Contract!.balanceOf(this.walletAddress),
+			this.token1Contract!.balanceOf(this.walletAddress),
+		]);
+
+		const positions: PositionInfo[] = [];
+		let principal0 = BigNumber.from(0);
+		let principal1 = BigNumber.from(0);
+		for (const leg of this.inRangePositions.legs) {
+			const position = await this.liquidityManager.getPositionInfo(
+				leg.tokenId,
+				poolState
+			);
+			principal0 = principal0.add(position.amount0!);
+			principal1 = principal1.add(position.amount1!);
+			positions.push(position);
+		}
+
+		const fees = await this.getUnrealizedFees();
+		const fees0 = fees.reduce(
+			(sum, legFees) => sum.add(legFees.amount0),
+			BigNumber.from(0)
+		);
+		const fees1 = fees.reduce(
+			(sum, legFees) => sum.add(legFees.amount1),
+			BigNumber.from(0)
+		);
+
+		const total0 = wallet0.add(principal0).add(fees0);
+		const total1 = wallet1.add(principal1).add(fees1);
+		const totalValueInToken1 = quoteToken0InToken1(
+			total0,
+			poolState.sqrtPriceX96
+		).add(total1);
+
+		console.log(
+			`Portfolio: wallet ${ethers.utils.formatUnits(
+				wallet0,
+				this.token0Decimals!
+			)}/${ethers.utils.formatUnits(
+				wallet1,
+				this.token1Decimals!
+			)}, positions ${ethers.utils.formatUnits(
+				principal0,
+				this.token0Decimals!
+			)}/${ethers.utils.formatUnits(
+				principal1,
+				this.token1Decimals!
+			)}, fees ${ethers.utils.formatUnits(
+				fees0,
+				this.token0Decimals!
+			)}/${ethers.utils.formatUnits(
+				fees1,
+				this.token1Decimals!
+			)} token0/token1, total value ${ethers.utils.formatUnits(
+				totalValueInToken1,
+				this.token1Decimals!
+			)} token1`
+		);
+
+		return {
+			timestamp: Math.floor(Date.now() / 1000),
+			sqrtPriceX96: poolState.sqrtPriceX96,
+			positions,
+			wallet0,
+			wallet1,
+			principal0,
+			principal1,
+			fees0,
+			fees1,
+			total0,
+			total1,
+			totalValueInToken1,
+		};
+	}
+
+	/**
+	 * Estimate the gas cost of compounding in token1, valuing ETH through
+	 * the pool when one of its tokens is WETH
+	 * @param legCount Number of legs that will be collected and increased
+	 * @param sqrtPriceX96 Current pool sqrt price
+	 * @returns Gas cost in token1, or null if ETH cannot be valued in token1
+	 */
+	private async estimateCompoundingGasCost(
+		legCount: number,
+		sqrtPriceX96: BigNumber
+	): Promise<number | null> {
+		const gasPerLeg = this.compounding!.gasPerLeg ?? 300000;
+		const gasPrice = await this.provider.getGasPrice();
+		// One extra leg's worth of gas covers the swap to the target ratio
+		const gasCostWei = gasPrice.mul(gasPerLeg * (legCount + 1));
+
+		let gasCostRaw: BigNumber;
+		if (this.token1!.toLowerCase() === this.WETH_ADDRESS.toLowerCase()) {
+			gasCostRaw = gasCostWei;
+		} else if (
+			this.token0!.toLowerCase() === this.WETH_ADDRESS.toLowerCase()
+		) {
+			gasCostRaw = quoteToken0InToken1(gasCostWei, sqrtPriceX96);
+		} else {
+			return null;
+		}
+
+		return parseFloat(
+			ethers.utils.formatUnits(gasCostRaw, this.token1Decimals!)
+		);
+	}
+
+	/**
+	 * Deposit idle wallet funds (e.g. a new deposit) into the live legs once
+	 * they are worth at least topUpMinValue in token1
+	 */
+	private async topUpLegsFromWallet(): Promise<void> {
+		if (this.inRangePositions.legs.length === 0) {
+			return;
+		}
+
+		// Nothing arrived or left since the last check, so nothing to deposit
+		const wallet = await this.getWalletBalances();
+		const lastWallet = this.lastTopUpWalletBalances;
+		this.lastTopUpWalletBalances = wallet;
+		if (
+			lastWallet &&
+			wallet.token0.eq(lastWallet.token0) &&
+			wallet.token1.eq(lastWallet.token1)
+		) {
+			return;
+		}
+
+		await this.refreshCloseBalances(wallet);
+
+		const idleValue = await this.getIdleValue();
+
+		// Leftovers a previous top-up could not place don't count as new funds
+		this.lastTopUpIdleValue = Math.min(this.lastTopUpIdleValue, idleValue);
+		if (idleValue - this.lastTopUpIdleValue < this.topUpMinValue!) {
+			return;
+		}
+
+		console.log(
+			`Idle wallet funds worth ${idleValue.toFixed(
+				2
+			)} token1, adding them to the live legs`
+		);
+
+		try {
+			await this.increaseLegs(
+				this.closeBalances.token0,
+				this.closeBalances.token1
+			);
+		} catch (error) {
+			console.error("Error topping up legs:", error);
+			await this.dataTrackingService.recordStrategyError(
+				"topUpLegsFromWallet",
+				error
+			);
+		}
+
+		this.lastTopUpIdleValue = await this.getIdleValue();
+		this.lastTopUpWalletBalances = await this.getWalletBalances();
+	}
+
+	/**
+	 * Value of the idle close balances in token1 units
+	 * @returns Idle value as a decimal number
+	 */
+	private async getIdleValue(): Promise<number> {
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		return parseFloat(
+			ethers.utils.formatUnits(
+				quoteToken0InToken1(this.closeBalances.token0, sqrtPriceX96).add(
+					this.closeBalances.token1
+				),
+				this.token1Decimals!
+			)
+		);
+	}
+
+	/**
+	 * Add the given token amounts to the live legs without closing them. The
+	 * amounts are split across legs by their current value, in the ratio each
+	 * range needs at the current price; whatever cannot be added stays idle
+	 * @param amount0 token0 available to deposit
+	 * @param amount1 token1 available to deposit
+	 */
+	public async increaseLegs(
+		amount0: BigNumber,
+		amount1: BigNumber
+	): Promise<void> {
+		const legs = this.inRangePositions.legs;
+		if (legs.length === 0 || (amount0.isZero() && amount1.isZero())) {
+			return;
+		}
+
+		await this.assertPriceNotManipulated("increase liquidity");
+
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const plan = computeDepositPlan(
+			this.liveLegTargets(sqrtPriceX96),
+			sqrtPriceX96
+		);
+
+		for (let i = 0; i < legs.length; i++) {
+			const leg = legs[i];
+			const label = this.legLabel(i, legs.length);
+			const amount0Desired = this.weightedShare(
+				amount0,
+				plan.legs[i].token0Share,
+				1
+			);
+			const amount1Desired = this.weightedShare(
+				amount1,
+				plan.legs[i].token1Share,
+				1
+			);
+
+			if (amount0Desired.isZero() && amount1Desired.isZero()) {
+				continue;
+			}
+
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				leg,
+				amount0Desired,
+				amount1Desired,
+				sqrtPriceX96
+			);
+			const result = await this.liquidityManager.increaseLiquidity(
+				leg.tokenId,
+				amount0Desired,
+				amount1Desired,
+				amount0Min,
+				amount1Min
+			);
+
+			leg.liquidity = leg.liquidity.add(result.liquidity);
+			leg.token0Amount = (leg.token0Amount || BigNumber.from(0)).add(
+				result.amount0Used
+			);
+			leg.token1Amount = (leg.token1Amount || BigNumber.from(0)).add(
+				result.amount1Used
+			);
+
+			const balanced = balancedHoldingsFor(
+				result.amount0Used,
+				result.amount1Used,
+				sqrtPriceX96
+			);
+			leg.balancedHold0 = (leg.balancedHold0 || BigNumber.from(0)).add(
+				balanced.amount0
+			);
+			leg.balancedHold1 = (leg.balancedHold1 || BigNumber.from(0)).add(
+				balanced.amount1
+			);
+
+			this.closeBalances.token0 = this.closeBalances.token0.sub(
+				result.amount0Used
+			);
+			this.closeBalances.token1 = this.closeBalances.token1.sub(
+				result.amount1Used
+			);
 
-				const upperResult = await this.liquidityManager.mintPosition(
-					upperPositionTicks.lower,
-					upperPositionTicks.upper,
-					totalToken0,
-					totalToken1,
-					totalToken0.mul(98).div(100),
-					BigNumber.from(0)
-				);
+			console.log(
+				`${label} position ${leg.tokenId} increased by ${ethers.utils.formatUnits(
+					result.amount0Used,
+					this.token0Decimals!
+				)} token0 and ${ethers.utils.formatUnits(
+					result.amount1Used,
+					this.token1Decimals!
+				)} token1`
+			);
 
-				// token1 left after minting upper position
-				totalToken1Left = totalToken1.sub(upperResult.amount1Used);
+			await this.dataTrackingService.recordLiquidityIncreased(
+				leg,
+				result.amount0Used,
+				result.amount1Used
+			);
+			await this.checkpoint();
+		}
+	}
 
-				// Get position info and set as upper position
-				const upperPositionInfo =
-					await this.liquidityManager.getPositionInfo(
-						upperResult.tokenId
-					);
+	/**
+	 * Describe the live legs as deposit targets, each weighted by what it is
+	 * currently worth
+	 * @param sqrtPriceX96 Current pool sqrt price
+	 * @returns One target per live leg, weights summing to 1
+	 */
+	private liveLegTargets(sqrtPriceX96: BigNumber): TargetLeg[] {
+		const legs = this.inRangePositions.legs;
+		const legValues = legs.map((leg) => {
+			const amounts = getAmountsForLiquidity(
+				sqrtPriceX96,
+				getSqrtRatioAtTick(leg.tickLower),
+				getSqrtRatioAtTick(leg.tickUpper),
+				leg.liquidity
+			);
+			return parseFloat(
+				quoteToken0InToken1(amounts.amount0, sqrtPriceX96)
+					.add(amounts.amount1)
+					.toString()
+			);
+		});
+		const totalValue = legValues.reduce((sum, value) => sum + value, 0);
+
+		return legs.map((leg, i) => ({
+			tickLower: leg.tickLower,
+			tickUpper: leg.tickUpper,
+			weight: totalValue > 0 ? legValues[i] / totalValue : 1 / legs.length,
+		}));
+	}
 
-				// Update position with actual amounts used
-				upperPositionInfo.token0Amount = upperResult.amount0Used;
-				upperPositionInfo.token1Amount = upperResult.amount1Used;
+	/**
+	 * Move every leg to the new layout through position manager multicalls.
+	 * When the collected tokens already match the ratio the new ranges need,
+	 * closes and mints go out in one transaction that reverts as a whole.
+	 * Otherwise a swap has to happen between them, so the move runs as the
+	 * resumable close, swap and mint steps of a full rebalance, swapping
+	 * through the swapRouter
+	 */
+	private async atomicRebalance(): Promise<void> {
+		console.log("Rebalancing atomically through position manager multicall");
 
-				console.log(
-					`Upper position created with token ID: ${upperResult.tokenId}`
-				);
-				console.log(
-					`Actual amounts used: ${ethers.utils.formatUnits(
-						upperResult.amount0Used,
-						this.token0Decimals!
-					)} token0, ${ethers.utils.formatUnits(
-						upperResult.amount1Used,
-						this.token1Decimals!
-					)} token1`
-				);
+		try {
+			const legs = this.inRangePositions.legs;
+			const labels = legs.map((_, i) => this.legLabel(i, legs.length));
+			const tokenIds = legs.map((leg) => leg.tokenId);
 
-				// Record this position creation in the tracking system
-				await this.dataTrackingService.recordPositionCreated(
-					upperResult.tokenId,
-					{
-						...upperPositionInfo,
-						priceLower: this.liquidityManager.tickToPrice(
-							upperPositionTicks.lower,
-							this.token0Decimals!,
-							this.token1Decimals!
-						),
-						priceUpper: this.liquidityManager.tickToPrice(
-							upperPositionTicks.upper,
-							this.token0Decimals!,
-							this.token1Decimals!
-						),
-					}
-				);
+			const priceData = await this.oracleService.getOraclePrice();
+			const targetLegs = await this.rangeStrategy.computeTargetRanges(
+				this.buildRangeContext(priceData)
+			);
 
-				this.inRangePositions.upper = upperPositionInfo;
+			// Tokens we would hold once the current legs are closed
+			const expected = await this.liquidityManager.simulateClosePositions(
+				tokenIds
+			);
+			const available0 = this.closeBalances.token0.add(expected.amount0);
+			const available1 = this.closeBalances.token1.add(expected.amount1);
+
+			const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+			const plan = computeDepositPlan(targetLegs, sqrtPriceX96);
+			const needsSwap = this.needsRouterSwap(
+				available0,
+				available1,
+				plan.token0ValueFraction,
+				sqrtPriceX96
+			);
 
-				// Update remaining balances
-				this.closeBalances.token0 = this.closeBalances.token0.sub(
-					upperResult.amount0Used
-				);
-				this.closeBalances.token1 = this.closeBalances.token1.sub(
-					upperResult.amount1Used
-				);
-			} catch (error: any) {
-				console.error("Error creating upper position");
-				await this.dataTrackingService.recordPositionCreationFailed(
-					"upper",
-					"Error creating position: " + error.toString()
+			if (needsSwap) {
+				// A failure between close and mint must not leave the wallet
+				// without legs, so hand over to the resumable steps
+				console.log(
+					"Collected tokens do not match the target ratio, rebalancing in resumable close, router swap and mint steps"
 				);
-				throw error;
+				await this.fullRebalance();
+				return;
 			}
 
-			// Try to create lower position
-			try {
-				console.log(
-					`Minting lower position with ticks [${
-						lowerPositionTicks.lower
-					}, ${
-						lowerPositionTicks.upper
-					}] using ${ethers.utils.formatUnits(
-						0,
-						this.token0Decimals!
-					)} token0 and ${ethers.utils.formatUnits(
-						totalToken1Left,
-						this.token1Decimals!
-					)} token1`
+			await this.assertPriceNotManipulated("atomic rebalance");
+
+			const { closed, minted } =
+				await this.liquidityManager.closeAndMintInMulticall(
+					tokenIds,
+					this.buildMintRequests(
+						targetLegs,
+						available0,
+						available1,
+						sqrtPriceX96
+					)
 				);
 
-				const lowerResult = await this.liquidityManager.mintPosition(
-					lowerPositionTicks.lower,
-					lowerPositionTicks.upper,
-					BigNumber.from(0),
-					totalToken1Left,
-					BigNumber.from(0),
-					totalToken1Left.mul(98).div(100) // 2% slippage
-				);
+			await this.bookClosedLegs(closed, legs, labels);
+			const mintedLegs = await this.bookMintedLegs(targetLegs, minted);
 
-				// Get position info and set as lower position
-				const lowerPositionInfo =
-					await this.liquidityManager.getPositionInfo(
-						lowerResult.tokenId
-					);
+			this.inRangePositions = {
+				legs: [...mintedLegs].sort((a, b) => a.tickLower - b.tickLower),
+			};
 
-				// Update position with actual amounts used
-				lowerPositionInfo.token0Amount = lowerResult.amount0Used;
-				lowerPositionInfo.token1Amount = lowerResult.amount1Used;
+			// Update rebalance stats
+			this.stats.lastRebalanceTimestamp = Math.floor(Date.now() / 1000);
+			this.stats.totalRebalanceCount =
+				(this.stats.totalRebalanceCount || 0) + 1;
+			this.lastRebalancePrice = priceData.uniswapPrice;
 
-				console.log(
-					`Lower position created with token ID: ${lowerResult.tokenId}`
-				);
-				console.log(
-					`Actual amounts used: ${ethers.utils.formatUnits(
-						lowerResult.amount0Used,
-						this.token0Decimals!
-					)} token0, ${ethers.utils.formatUnits(
-						lowerResult.amount1Used,
-						this.token1Decimals!
-					)} token1`
-				);
+			await this.updateRebalanceBaseline();
+		} catch (error) {
+			console.error("Error in atomic rebalance:", error);
+			await this.dataTrackingService.recordRebalanceFailed("atomic", error);
+		}
+	}
 
-				// Record this position creation in the tracking system
-				await this.dataTrackingService.recordPositionCreated(
-					lowerResult.tokenId,
-					{
-						...lowerPositionInfo,
-						priceLower: this.liquidityManager.tickToPrice(
-							lowerPositionTicks.lower,
-							this.token0Decimals!,
-							this.token1Decimals!
-						),
-						priceUpper: this.liquidityManager.tickToPrice(
-							lowerPositionTicks.upper,
-							this.token0Decimals!,
-							this.token1Decimals!
-						),
-					}
-				);
+	/**
+	 * Check whether the token split is too far from the target ratio to mint
+	 * without a swap
+	 * @param amount0 Available token0
+	 * @param amount1 Available token1
+	 * @param targetToken0Fraction Fraction of value the ranges need in token0
+	 * @param sqrtPriceX96 Current pool sqrt price
+	 * @returns True if a swap is needed first
+	 */
+	private needsRouterSwap(
+		amount0: BigNumber,
+		amount1: BigNumber,
+		targetToken0Fraction: number,
+		sqrtPriceX96: BigNumber
+	): boolean {
+		const value0 = quoteToken0InToken1(amount0, sqrtPriceX96);
+		const totalValue = value0.add(amount1);
+		if (totalValue.isZero()) {
+			return false;
+		}
 
-				this.inRangePositions.lower = lowerPositionInfo;
+		const token0Fraction =
+			value0.mul(1e8).div(totalValue).toNumber() / 1e8;
+		const deviationPercent =
+			Math.abs(token0Fraction - targetToken0Fraction) * 100;
 
-				// Update remaining balances
-				this.closeBalances.token0 = this.closeBalances.token0.sub(
-					lowerResult.amount0Used
-				);
-				this.closeBalances.token1 = this.closeBalances.token1.sub(
-					lowerResult.amount1Used
-				);
-			} catch (error: any) {
-				console.error("Error creating lower position");
-
-				// If the upper position was created but lower failed, we need to close the upper
-				// to avoid having funds locked in a single-sided position
-				if (
-					this.inRangePositions.upper &&
-					typeof this.inRangePositions.upper.tokenId === "number"
-				) {
-					console.log(
-						`Closing upper position ${this.inRangePositions.upper.tokenId} due to lower position creation failure`
-					);
-					try {
-						const closeResult =
-							await this.liquidityManager.closePosition(
-								this.inRangePositions.upper.tokenId
-							);
-
-						// Update balances after closing
-						this.closeBalances.token0 =
-							this.closeBalances.token0.add(closeResult.amount0);
-						this.closeBalances.token1 =
-							this.closeBalances.token1.add(closeResult.amount1);
-
-						// Clear the position reference
-						this.inRangePositions.upper = null;
-					} catch (closeError) {
-						console.error(
-							"Error closing upper position after lower position failure:",
-							closeError
-						);
-					}
-				}
+		console.log(
+			`Token0 value share ${(token0Fraction * 100).toFixed(2)}%, target ${(
+				targetToken0Fraction * 100
+			).toFixed(2)}%, tolerance ${this.atomicSwapTolerancePercent}%`
+		);
 
-				await this.dataTrackingService.recordPositionCreationFailed(
-					"lower",
-					"Error creating position: " + error.toString()
-				);
-				throw new Error("Error creating lower position: " + error);
-			}
+		return deviationPercent > this.atomicSwapTolerancePercent;
+	}
 
-			// Set last rebalance price for future threshold checks
-			this.lastRebalancePrice = currentPrice;
+	/**
+	 * Swap through the swapRouter to the ratio the target legs need, unless
+	 * the close balances are already within tolerance of it
+	 * @param targetLegs Target legs with weights
+	 */
+	private async swapToRatioViaRouterIfNeeded(
+		targetLegs: TargetLeg[]
+	): Promise<void> {
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const plan = computeDepositPlan(targetLegs, sqrtPriceX96);
+
+		if (
+			this.needsRouterSwap(
+				this.closeBalances.token0,
+				this.closeBalances.token1,
+				plan.token0ValueFraction,
+				sqrtPriceX96
+			)
+		) {
+			await this.swapToRatioViaRouter(plan.token0ValueFraction);
+		} else {
+			console.log("Allocation is already at the target ratio");
+		}
+	}
 
-			console.log("Successfully created both positions");
-		} catch (error) {
-			console.error("Error in rebalanceAndOpenInRangePositions");
-			throw error;
+	/**
+	 * Swap through the pool with the configured Uniswap swapRouter so that
+	 * token0 makes up the given share of the close balances
+	 * @param targetToken0Fraction Fraction of value to hold as token0
+	 */
+	private async swapToRatioViaRouter(
+		targetToken0Fraction: number
+	): Promise<void> {
+		await this.assertPriceNotManipulated("router swap");
+
+		const sqrtPriceX96 = await this.getCurrentSqrtPriceX96();
+		const value0 = quoteToken0InToken1(this.closeBalances.token0, sqrtPriceX96);
+		const totalValue = value0.add(this.closeBalances.token1);
+		const targetValue0 = totalValue
+			.mul(Math.round(targetToken0Fraction * 1e8))
+			.div(1e8);
+
+		const poolFee = this.liquidityManager.getPoolFee();
+		// Expected output after the pool fee, less the allowed slippage
+		const minimumOut = (expectedOut: BigNumber) =>
+			expectedOut
+				.mul(1e6 - poolFee)
+				.div(1e6)
+				.mul(Math.round((100 - this.routerSlippagePercent) * 100))
+				.div(10000);
+
+		if (value0.gt(targetValue0)) {
+			const amountIn = quoteToken1InToken0(
+				value0.sub(targetValue0),
+				sqrtPriceX96
+			);
+			await this.swapService.swapViaRouter(
+				this.token0!,
+				this.token1!,
+				poolFee,
+				amountIn,
+				minimumOut(quoteToken0InToken1(amountIn, sqrtPriceX96))
+			);
+		} else {
+			const amountIn = targetValue0.sub(value0);
+			await this.swapService.swapViaRouter(
+				this.token1!,
+				this.token0!,
+				poolFee,
+				amountIn,
+				minimumOut(quoteToken1InToken0(amountIn, sqrtPriceX96))
+			);
 		}
+
+		await this.refreshCloseBalances();
 	}
 
 	/**
-	 * Run the In-Range strategy
+	 * Size the mints for the target legs from the available balances using
+	 * the exact deposit plan
+	 * @param targetLegs Target legs with weights
+	 * @param amount0 Available token0
+	 * @param amount1 Available token1
+	 * @param sqrtPriceX96 Pool sqrt price to plan at
+	 * @returns One mint request per leg, same order
 	 */
-	private async strategy(): Promise<void> {
-		console.log("Running strategy check...");
+	private buildMintRequests(
+		targetLegs: TargetLeg[],
+		amount0: BigNumber,
+		amount1: BigNumber,
+		sqrtPriceX96: BigNumber
+	): MintRequest[] {
+		const plan = computeDepositPlan(targetLegs, sqrtPriceX96);
+
+		return targetLegs.map((leg, i) => {
+			const amount0Desired = this.weightedShare(
+				amount0,
+				plan.legs[i].token0Share,
+				1
+			);
+			const amount1Desired = this.weightedShare(
+				amount1,
+				plan.legs[i].token1Share,
+				1
+			);
 
-		// Get current price and tick
-		const priceData = await this.oracleService.getOraclePrice();
-		const currentPrice = priceData.uniswapPrice;
-		const currentTick = priceData.tick;
+			// One reverting mint rolls back the whole multicall
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				leg,
+				amount0Desired,
+				amount1Desired,
+				sqrtPriceX96
+			);
 
-		console.log(
-			`Current price: ${currentPrice}, Current tick: ${currentTick}`
-		);
-		console.log(
-			`Last rebalance price: ${this.lastRebalancePrice.toFixed(2)}`
-		);
+			return {
+				tickLower: leg.tickLower,
+				tickUpper: leg.tickUpper,
+				amount0Desired,
+				amount1Desired,
+				amount0Min,
+				amount1Min,
+			};
+		});
+	}
 
-		const isBeyondTickThreshold =
-			this.isPriceBeyondTickThreshold(currentTick);
+	/**
+	 * Book every leg minted by a multicall
+	 * @param targetLegs Target legs, same order as the mints
+	 * @param minted Minted positions returned by the multicall
+	 * @returns Position info of each minted leg
+	 */
+	private async bookMintedLegs(
+		targetLegs: TargetLeg[],
+		minted: MintedPosition[]
+	): Promise<PositionInfo[]> {
+		const mintedLegs: PositionInfo[] = [];
+		for (let i = 0; i < minted.length; i++) {
+			mintedLegs.push(
+				await this.bookMintedLeg(
+					targetLegs[i],
+					this.legLabel(i, targetLegs.length),
+					minted[i]
+				)
+			);
+		}
+		return mintedLegs;
+	}
 
+	/**
+	 * Close every leg, swap to the ratio the new layout needs and open it,
+	 * as a resumable sequence of steps
+	 */
+	private async fullRebalance(): Promise<void> {
+		const legs = this.inRangePositions.legs;
 		console.log(
-			`Is price beyond configured thresholds: ${isBeyondTickThreshold}`
+			legs.length > 0
+				? `Closing positions and rebalancing`
+				: `Opening a new layout`
 		);
 
-		if (isBeyondTickThreshold) {
-			console.log(`Closing positions and rebalancing`);
+		this.rebalanceProgress = {
+			phase:
+				legs.length > 0 ? RebalancePhase.CLOSING : RebalancePhase.SWAPPING,
+			closingTokenIds: legs.map((leg) => leg.tokenId),
+			targetLegs: [],
+			startedAt: Math.floor(Date.now() / 1000),
+			attempts: 0,
+		};
+		await this.checkpoint();
 
-			// Close both positions
-			try {
-				// Check for null positions first
-				if (
-					!this.inRangePositions.lower ||
-					!this.inRangePositions.upper
-				) {
-					console.log("No positions to close, skipping to rebalance");
+		await this.runRebalance();
+	}
+
+	/**
+	 * Partial rebalance: keep the legs nearest the price and move only the
+	 * exhausted far leg, leapfrogging it over the others so it lands next to
+	 * the price. When the new band sits entirely on the side the freed token
+	 * already funds, no swap is needed.
+	 * @param priceData The latest oracle price data
+	 * @returns False if the layout cannot be leapfrogged and needs a full rebalance
+	 */
+	private async leapfrogRebalance(priceData: PriceData): Promise<boolean> {
+		const legs = this.inRangePositions.legs;
+		const currentTick = priceData.tick;
+
+		if (legs.length === 0 || legs.length !== this.rangeStrategy.legCount) {
+			console.log(
+				`Leapfrog needs a complete layout (${legs.length}/${this.rangeStrategy.legCount} legs), falling back to full rebalance`
+			);
+			return false;
+		}
+
+		const layoutLower = Math.min(...legs.map((leg) => leg.tickLower));
+		const layoutUpper = Math.max(...legs.map((leg) => leg.tickUpper));
+		const layoutWidth = layoutUpper - layoutLower;
+		const movedUp = currentTick >= layoutUpper;
+
+		// The leg farthest from the price is the exhausted one
+		const exhausted = movedUp ? legs[0] : legs[legs.length - 1];
+		const kept = legs.filter((leg) => leg.tokenId !== exhausted.tokenId);
+		const width = exhausted.tickUpper - exhausted.tickLower;
+
+		// Land the exhausted leg just beyond the kept legs, towards the price
+		const newRange: TickRange = movedUp
+			? { tickLower: layoutUpper, tickUpper: layoutUpper + width }
+			: { tickLower: layoutLower - width, tickUpper: layoutLower };
+
+		// If the price gapped further than the whole layout, walking the legs
+		// one at a time would take too long
+		const gap = movedUp
+			? currentTick - layoutUpper
+			: layoutLower - currentTick;
+		if (gap > layoutWidth) {
+			console.log(
+				`Price moved ${gap} ticks past the layout (width ${layoutWidth}), falling back to full rebalance`
+			);
+			return false;
+		}
+
+		const label = movedUp ? "leapfrog upper" : "leapfrog lower";
+		let closed = false;
+
+		try {
+			console.log(
+				`Leapfrogging position ${exhausted.tokenId} [${exhausted.tickLower}, ${exhausted.tickUpper}] to [${newRange.tickLower}, ${newRange.tickUpper}]`
+			);
+
+			await this.closeLeg(exhausted, "exhausted");
+			this.inRangePositions = { legs: kept };
+			closed = true;
+			await this.checkpoint();
+
+			// Below the price the band needs token1 only, above it token0 only
+			const token1Only = currentTick >= newRange.tickUpper;
+			const token0Only = currentTick < newRange.tickLower;
+
+			let amount0 = this.closeBalances.token0;
+			let amount1 = this.closeBalances.token1;
+			if (token1Only) {
+				console.log("New band is below the price, funding with token1 without a swap");
+				amount0 = BigNumber.from(0);
+			} else if (token0Only) {
+				console.log("New band is above the price, funding with token0 without a swap");
+				amount1 = BigNumber.from(0);
+			} else {
+				console.log("New band contains the price, balancing tokens before minting");
+				if (this.depositRatio === "range") {
+					await this.ensureBalancedForRanges([{ ...newRange, weight: 1 }]);
 				} else {
-					const lowerTokenId = this.inRangePositions.lower.tokenId;
-					const upperTokenId = this.inRangePositions.upper.tokenId;
-
-					if (lowerTokenId !== undefined) {
-						// Close lower position
-						console.log(
-							`Closing lower position ${lowerTokenId}...`
-						);
-						const lowerResult =
-							await this.liquidityManager.closePosition(
-								lowerTokenId
-							);
-
-						// Separate the principal from fees for tracking purposes
-						const { fees: lowerFees } =
-							this.separatePrincipalAndFees(
-								this.inRangePositions.lower,
-								lowerResult.amount0,
-								lowerResult.amount1
-							);
-
-						// Update fee collection stats
-						this.stats.totalFeesCollectedToken0 =
-							this.stats.totalFeesCollectedToken0.add(
-								lowerFees.amount0
-							);
-						this.stats.totalFeesCollectedToken1 =
-							this.stats.totalFeesCollectedToken1.add(
-								lowerFees.amount1
-							);
-
-						console.log(
-							`Lower position fees collected: ${ethers.utils.formatUnits(
-								lowerFees.amount0,
-								this.token0Decimals!
-							)} token0, ${ethers.utils.formatUnits(
-								lowerFees.amount1,
-								this.token1Decimals!
-							)} token1`
-						);
-
-						// Record position closed event
-						await this.dataTrackingService.recordPositionClosed(
-							lowerTokenId,
-							lowerResult.amount0,
-							lowerResult.amount1
-						);
-
-						// Record fees collected event
-						await this.dataTrackingService.recordFeesCollected(
-							lowerTokenId,
-							lowerFees.amount0,
-							lowerFees.amount1
-						);
-
-						// Update balances
-						this.closeBalances.token0 =
-							this.closeBalances.token0.add(lowerResult.amount0);
-						this.closeBalances.token1 =
-							this.closeBalances.token1.add(lowerResult.amount1);
-					}
-
-					if (upperTokenId !== undefined) {
-						// Close upper position
-						console.log(
-							`Closing upper position ${upperTokenId}...`
-						);
-						const upperResult =
-							await this.liquidityManager.closePosition(
-								upperTokenId
-							);
-
-						// Separate the principal from fees for tracking purposes
-						const { fees: upperFees } =
-							this.separatePrincipalAndFees(
-								this.inRangePositions.upper,
-								upperResult.amount0,
-								upperResult.amount1
-							);
-
-						// Update fee collection stats
-						this.stats.totalFeesCollectedToken0 =
-							this.stats.totalFeesCollectedToken0.add(
-								upperFees.amount0
-							);
-						this.stats.totalFeesCollectedToken1 =
-							this.stats.totalFeesCollectedToken1.add(
-								upperFees.amount1
-							);
-
-						console.log(
-							`Upper position fees collected: ${ethers.utils.formatUnits(
-								upperFees.amount0,
-								this.token0Decimals!
-							)} token0, ${ethers.utils.formatUnits(
-								upperFees.amount1,
-								this.token1Decimals!
-							)} token1`
-						);
-
-						// Record position closed event
-						await this.dataTrackingService.recordPositionClosed(
-							upperTokenId,
-							upperResult.amount0,
-							upperResult.amount1
-						);
-
-						// Record fees collected event
-						await this.dataTrackingService.recordFeesCollected(
-							upperTokenId,
-							upperFees.amount0,
-							upperFees.amount1
-						);
-
-						// Update balances
-						this.closeBalances.token0 =
-							this.closeBalances.token0.add(upperResult.amount0);
-						this.closeBalances.token1 =
-							this.closeBalances.token1.add(upperResult.amount1);
-					}
+					await this.ensureBalanced5050();
 				}
+				amount0 = this.closeBalances.token0;
+				amount1 = this.closeBalances.token1;
+			}
 
-				console.log(
-					`Positions closed, total balances: ${ethers.utils.formatUnits(
-						this.closeBalances.token0,
-						this.token0Decimals!
-					)} token0, ${ethers.utils.formatUnits(
-						this.closeBalances.token1,
-						this.token1Decimals!
-					)} token1`
-				);
-				console.log(
-					`Total fees collected: ${ethers.utils.formatUnits(
-						this.stats.totalFeesCollectedToken0,
-						this.token0Decimals!
-					)} token0, ${ethers.utils.formatUnits(
-						this.stats.totalFeesCollectedToken1,
-						this.token1Decimals!
-					)} token1`
-				);
+			const { amount0Min, amount1Min } = this.mintMinimums(
+				newRange,
+				amount0,
+				amount1,
+				await this.getCurrentSqrtPriceX96()
+			);
+			const newLeg = await this.mintLeg(
+				newRange,
+				label,
+				amount0,
+				amount1,
+				amount0Min,
+				amount1Min
+			);
 
-				// Update rebalance stats
-				this.stats.lastRebalanceTimestamp = Math.floor(
-					Date.now() / 1000
-				);
-				this.stats.totalRebalanceCount =
-					(this.stats.totalRebalanceCount || 0) + 1;
+			this.inRangePositions = {
+				legs: [...kept, newLeg].sort((a, b) => a.tickLower - b.tickLower),
+			};
 
-				// Reset positions
-				this.inRangePositions = { upper: null, lower: null };
+			// Update rebalance stats
+			this.stats.lastRebalanceTimestamp = Math.floor(Date.now() / 1000);
+			this.stats.totalRebalanceCount =
+				(this.stats.totalRebalanceCount || 0) + 1;
 
-				// Get the latest price after closing positions
-				const latestPriceData =
-					await this.oracleService.getOraclePrice();
-				console.log(
-					`Latest price after closing positions: ${latestPriceData.uniswapPrice}`
-				);
+			await this.updateRebalanceBaseline();
+		} catch (error) {
+			console.error("Error during leapfrog rebalance:", error);
+			await this.dataTrackingService.recordRebalanceFailed(
+				"leapfrog",
+				error
+			);
 
-				// Market went up, so we now have more USDC. Rebalance to 50/50
-				await this.ensureBalanced5050();
+			// The freed funds would sit idle next to an incomplete layout:
+			// rebuild it through the resumable full rebalance instead
+			if (closed) {
+				console.log("Leapfrog mint failed after the close, falling back to full rebalance");
+				await this.fullRebalance();
+			}
+		}
 
-				// Create new positions
-				await this.rebalanceAndOpenPositions();
+		return true;
+	}
 
-				// Update the rebalance baseline with the current sqrt price
-				await this.updateRebalanceBaseline();
-			} catch (error) {
-				console.error("Error handling upper threshold breach:", error);
-			}
+	/**
+	 * Start the strategy
+	 */
+	public async start(): Promise<void> {
+		console.log(`Starting NPC Strategy...`);
+
+		if (this.priceStream) {
+			await this.startBlockDrivenLoop(this.priceStream);
+		} else {
+			await this.monitoringLoop();
 		}
 	}
 
 	/**
-	 * Helper method to separate principal from fees when closing a position
-	 * This uses the tracked position amounts to accurately calculate fees
+	 * Stop the strategy's timers, price stream and data tracking, and close
+	 * its database connection
 	 */
-	private separatePrincipalAndFees(
-		position: PositionInfo,
-		amount0Received: BigNumber,
-		amount1Received: BigNumber
-	): {
-		principal: { amount0: BigNumber; amount1: BigNumber };
-		fees: { amount0: BigNumber; amount1: BigNumber };
-	} {
-		// Use position's token amounts that were stored when creating the position
-		// This gives us accurate tracking of principal vs fees
-		const principal0 = position.token0Amount || BigNumber.from(0);
-		const principal1 = position.token1Amount || BigNumber.from(0);
+	public async stop(): Promise<void> {
+		if (this.idleCheckTimer) {
+			clearInterval(this.idleCheckTimer);
+			this.idleCheckTimer = null;
+		}
 
-		console.log(
-			`Position principal amounts: ${ethers.utils.formatUnits(
-				principal0,
-				this.token0Decimals!
-			)} token0, ${ethers.utils.formatUnits(
-				principal1,
-				this.token1Decimals!
-			)} token1`
-		);
-		console.log(
-			`Amount received: ${ethers.utils.formatUnits(
-				amount0Received,
-				this.token0Decimals!
-			)} token0, ${ethers.utils.formatUnits(
-				amount1Received,
-				this.token1Decimals!
-			)} token1`
+		if (this.priceStream) {
+			this.priceStream.removeAllListeners();
+			await this.priceStream.stop();
+		}
+
+		await this.dataTrackingService.shutdown();
+	}
+
+	/**
+	 * Run the strategy whenever the price stream reports that the tick moved,
+	 * and at least once per check interval while it does not
+	 * @param priceStream The shared block-driven price stream
+	 */
+	private async startBlockDrivenLoop(
+		priceStream: PriceStreamService
+	): Promise<void> {
+		priceStream.on(PriceStreamEvent.PRICE, (priceData: PriceData) => {
+			this.handleStreamPrice(priceData).catch((error) =>
+				console.error("Error in block-driven loop:", error)
+			);
+		});
+		priceStream.on(PriceStreamEvent.ERROR, (error) =>
+			console.error("Price stream error:", error)
 		);
 
-		// Calculate fees (anything above principal is considered fees)
-		// Use max(0, received - principal) to avoid negative fees in case of impermanent loss
-		const fees0 = amount0Received.gt(principal0)
-			? amount0Received.sub(principal0)
-			: BigNumber.from(0);
+		await priceStream.start();
 
-		const fees1 = amount1Received.gt(principal1)
-			? amount1Received.sub(principal1)
-			: BigNumber.from(0);
+		// The stream stays silent while the tick is flat, but resuming a
+		// pending rebalance, compounding and top-ups must still run
+		this.idleCheckTimer = setInterval(() => {
+			this.runIdleCheck().catch((error) =>
+				console.error("Error in block-driven loop:", error)
+			);
+		}, this.checkInterval);
 
-		console.log(
-			`Calculated fees: ${ethers.utils.formatUnits(
-				fees0,
-				this.token0Decimals!
-			)} token0, ${ethers.utils.formatUnits(
-				fees1,
-				this.token1Decimals!
-			)} token1`
-		);
+		console.log("Block-driven monitoring started");
+	}
 
-		return {
-			principal: {
-				amount0: principal0,
-				amount1: principal1,
-			},
-			fees: {
-				amount0: fees0,
-				amount1: fees1,
-			},
-		};
+	/**
+	 * Run a strategy check at the current price if the stream has not
+	 * triggered one within the check interval
+	 */
+	private async runIdleCheck(): Promise<void> {
+		if (
+			this.isStrategyRunning ||
+			Date.now() - this.lastCheckTimestamp < this.checkInterval
+		) {
+			return;
+		}
+
+		await this.handleStreamPrice(await this.oracleService.getOraclePrice());
 	}
 
 	/**
-	 * Start the strategy
+	 * Run one strategy check for a streamed price. Checks never overlap: a
+	 * price arriving mid-check is kept and only the latest one is processed
+	 * @param priceData Price emitted by the stream
 	 */
-	public async start(): Promise<void> {
-		console.log(`Starting NPC Strategy...`);
-		await this.monitoringLoop();
+	private async handleStreamPrice(priceData: PriceData): Promise<void> {
+		if (this.isStrategyRunning) {
+			this.pendingStreamPrice = priceData;
+			return;
+		}
+
+		this.isStrategyRunning = true;
+		try {
+			let nextPrice: PriceData | null = priceData;
+			while (nextPrice) {
+				this.pendingStreamPrice = null;
+				this.lastCheckTimestamp = Date.now();
+
+				console.log(
+					`\n--- Strategy Check (${new Date().toLocaleString()}, tick ${
+						nextPrice.tick
+					}) ---`
+				);
+
+				try {
+					await this.strategy(nextPrice);
+					await this.checkpoint();
+					await this.reconcileIfDue();
+				} catch (error) {
+					console.error("Error in block-driven loop:", error);
+				}
+
+				nextPrice = this.pendingStreamPrice;
+			}
+		} finally {
+			this.isStrategyRunning = false;
+		}
 	}
 
 	/**
@@ -1045,6 +2831,8 @@ export class CustomPoolStrategy {
 
 				// Execute strategy
 				await this.strategy();
+				await this.checkpoint();
+				await this.reconcileIfDue();
 
 				// Sleep for check interval
 				console.log(
@@ -1061,6 +2849,52 @@ export class CustomPoolStrategy {
 		}
 	}
 
+	/**
+	 * Compare what the wallet owns on chain against the database and the
+	 * strategy's own records, recording every discrepancy found
+	 * @returns The reconciliation report, or null if reconciliation is disabled
+	 */
+	public async reconcile(): Promise<ReconciliationReport | null> {
+		if (!this.reconciliationService) {
+			return null;
+		}
+
+		this.lastReconciliationTimestamp = Math.floor(Date.now() / 1000);
+		return this.reconciliationService.reconcile({
+			legTokenIds: this.inRangePositions.legs.map((leg) => leg.tokenId),
+			ignoredTokenIds: this.ignoredTokenIds,
+			idleBalances: this.closeBalances,
+			// Kept fees sit in the wallet outside the tracked balances
+			allowWalletSurplus: this.liquidityManager.getFeePolicyMode() === "keep",
+		});
+	}
+
+	/**
+	 * Reconcile once the configured interval has passed. Skipped while a
+	 * rebalance is in flight, since the records are expected to disagree
+	 */
+	private async reconcileIfDue(): Promise<void> {
+		const now = Math.floor(Date.now() / 1000);
+		if (
+			!this.reconciliationService ||
+			this.rebalanceProgress ||
+			now - this.lastReconciliationTimestamp <
+				this.reconciliationService.intervalSeconds
+		) {
+			return;
+		}
+
+		try {
+			await this.reconcile();
+		} catch (error) {
+			console.error("Error reconciling on-chain state:", error);
+			await this.dataTrackingService.recordStrategyError(
+				"reconciliation",
+				error
+			);
+		}
+	}
+
 	/**
 	 * Update the last rebalance sqrt price
 	 * Call this after successful rebalancing to reset the baseline
@@ -1079,95 +2913,146 @@ export class CustomPoolStrategy {
 			console.log(
 				`Updated rebalance baseline: sqrtPrice=${this.lastRebalanceSqrtPriceX96}, price=${this.lastRebalancePrice}`
 			);
+
+			await this.checkpoint();
 		} catch (error) {
 			console.error("Error updating rebalance baseline:", error);
 		}
 	}
 
-	// Check if the price is beyond the configured thresholds
-	private isPriceBeyondTickThreshold(currentTick: number): boolean {
-		const upperPositionUpper = this.inRangePositions.upper
-			?.tickUpper as number;
-		const lowerPositionLower = this.inRangePositions.lower
-			?.tickLower as number;
+	/**
+	 * Read the current sqrt price from the pool
+	 * @returns The pool's sqrtPriceX96
+	 */
+	private async getCurrentSqrtPriceX96(): Promise<BigNumber> {
+		const [sqrtPriceX96] = await this.poolContract.slot0();
+		return BigNumber.from(sqrtPriceX96);
+	}
 
-		const upperTickThreshold =
-			upperPositionUpper + 2 * this.oracleService.getTickSpacing();
-		const lowerTickThreshold =
-			lowerPositionLower - 2 * this.oracleService.getTickSpacing();
+	/**
+	 * Build the market context handed to the range strategy
+	 * @param priceData The latest oracle price data
+	 * @returns Range context for the current pool state
+	 */
+	private buildRangeContext(priceData: PriceData): RangeContext {
+		return {
+			currentPrice: priceData.uniswapPrice,
+			currentTick: priceData.tick,
+			tickSpacing: this.oracleService.getTickSpacing(),
+			token0Decimals: this.token0Decimals!,
+			token1Decimals: this.token1Decimals!,
+		};
+	}
 
-		console.log(
-			`Current tick: ${currentTick}, Upper tick threshold: ${upperTickThreshold}, Lower tick threshold: ${lowerTickThreshold}`
-		);
+	/**
+	 * Build the range context used for rebalance decisions: in TWAP mode the
+	 * average tick replaces spot so a single swap cannot trigger a rebalance
+	 * @param priceData Latest oracle price
+	 * @returns The range context for shouldRebalance
+	 */
+	private buildDecisionContext(priceData: PriceData): RangeContext {
+		const context = this.buildRangeContext(priceData);
+
+		if (
+			this.oracleService.getPriceSource() === "twap" &&
+			priceData.twapTick !== undefined &&
+			priceData.twapPrice !== undefined
+		) {
+			console.log(
+				`Deciding on TWAP tick ${priceData.twapTick} (spot tick ${priceData.tick})`
+			);
+			return {
+				...context,
+				currentPrice: priceData.twapPrice,
+				currentTick: priceData.twapTick,
+			};
+		}
 
-		// Check if current price is beyond either threshold
-		// For Uniswap V3:
-		// - If currentTick > upperTickThreshold, price is below lower bound
-		// - If currentTick < lowerTickThreshold, price is above upper bound
-		const isAboveUpperThreshold = currentTick < lowerTickThreshold;
-		const isBelowLowerThreshold = currentTick > upperTickThreshold;
+		return context;
+	}
 
-		if (isAboveUpperThreshold) {
+	/**
+	 * Check the spot/TWAP manipulation guard and the secondary price feed,
+	 * recording whichever check fails
+	 * @param operation Operation about to be performed, for logs and tracking
+	 * @returns False if the pool price should not be trusted right now
+	 */
+	private async isPriceSafe(operation: string): Promise<boolean> {
+		const deviation = await this.oracleService.checkSpotTwapDeviation();
+		if (deviation && deviation.exceeded) {
 			console.log(
-				`Price is above upper threshold (${upperTickThreshold.toFixed(
-					2
-				)}), should close positions`
+				`Manipulation guard tripped before ${operation}: spot tick ${deviation.spotTick} is ${deviation.deviationTicks} ticks from TWAP tick ${deviation.twapTick} (max ${deviation.maxDeviationTicks})`
+			);
+			await this.dataTrackingService.recordManipulationGuardTripped(
+				operation,
+				deviation
 			);
+			return false;
 		}
 
-		if (isBelowLowerThreshold) {
+		const divergence = await this.oracleService.checkAggregatorDivergence();
+		if (divergence && divergence.exceeded) {
 			console.log(
-				`Price is below lower threshold (${lowerTickThreshold.toFixed(
-					2
-				)}), should close positions`
+				divergence.stale
+					? `Secondary price feed is stale before ${operation}, last updated at ${divergence.feedUpdatedAt}`
+					: `Pool price ${divergence.poolPrice} diverges ${divergence.divergencePercent.toFixed(
+							3
+					  )}% from feed price ${divergence.feedPrice} before ${operation} (max ${divergence.maxDivergencePercent}%)`
 			);
+			await this.dataTrackingService.recordPriceFeedDivergence(
+				operation,
+				divergence
+			);
+			return false;
 		}
 
-		return isAboveUpperThreshold || isBelowLowerThreshold;
+		return true;
 	}
 
 	/**
-	 * Convert price to tick using Uniswap V3 formula
-	 * @param price The price to convert
-	 * @returns The corresponding tick
+	 * Refuse to continue with a mint, close or swap while a price check fails
+	 * @param operation Operation about to be performed
+	 * @throws Error if the spot price deviates too far from the TWAP or feed
 	 */
-	private priceToTick(price: number): number {
-		return (
-			(Math.log(price) -
-				(this.token0Decimals! - this.token1Decimals!) * Math.log(10)) /
-			Math.log(1.0001)
-		);
+	private async assertPriceNotManipulated(operation: string): Promise<void> {
+		if (!(await this.isPriceSafe(operation))) {
+			throw new Error(
+				`Refusing to ${operation}: pool price failed the TWAP or price feed check`
+			);
+		}
 	}
 
 	/**
-	 * Convert tick to price using Uniswap V3 formula
-	 * @param tick The tick to convert
-	 * @returns The corresponding price
+	 * Name a leg for logs: lower/upper for the two-leg layout, index otherwise
+	 * @param index Position of the leg, lowest band first
+	 * @param legCount Total number of legs
+	 * @returns The leg label
 	 */
-	private tickToPrice(tick: number): number {
-		return (
-			Math.pow(1.0001, tick) *
-			10 ** (this.token0Decimals! - this.token1Decimals!)
-		);
+	private legLabel(index: number, legCount: number): string {
+		if (legCount === 2) {
+			return index === 0 ? "lower" : "upper";
+		}
+		return `leg ${index}`;
 	}
 
 	/**
-	 * Align tick to the nearest tickSpacing
-	 * @param tick The tick to align
-	 * @param tickSpacing The tick spacing
-	 * @param roundUp Whether to round up or down
-	 * @returns The aligned tick
+	 * Split an amount by weight among the legs still to be funded
+	 * @param amount Amount still available
+	 * @param weight Weight of the leg being funded
+	 * @param remainingWeight Total weight of the legs still to be funded
+	 * @returns The share of the amount for this leg
 	 */
-	private alignTick(
-		tick: number,
-		tickSpacing: number,
-		roundUp: boolean
-	): number {
-		// Use the LiquidityManager's implementation which handles negative ticks correctly
-		return this.liquidityManager.alignTickToSpacing(
-			tick,
-			tickSpacing,
-			roundUp
-		);
+	private weightedShare(
+		amount: BigNumber,
+		weight: number,
+		remainingWeight: number
+	): BigNumber {
+		// The last leg to be funded takes everything left (tolerates float drift)
+		if (remainingWeight <= 0 || weight >= remainingWeight - 1e-9) {
+			return amount;
+		}
+		// Scale the ratio to 1e8 precision to keep the math in BigNumber
+		const ratio = Math.floor((weight / remainingWeight) * 1e8);
+		return amount.mul(ratio).div(1e8);
 	}
 }
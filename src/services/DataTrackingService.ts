@@ -1,6 +1,8 @@
 import { DatabaseService } from './DatabaseService';
 import { OracleService } from './OracleService';
-import { ActionEvent, ActionType, NetworkConfig, PositionInfo, StrategyStats, PriceData } from '../utils/types';
+import { PriceStreamEvent, PriceStreamService } from './PriceStreamService';
+import { ActionEvent, ActionType, NetworkConfig, PositionInfo, StrategyStats, StrategyState, PriceData, SpotTwapDeviation, PriceFeedDivergence, ReconciliationReport, UnmanagedPositionPolicy } from '../utils/types';
+import { CyclePnl, LegPnl } from '../utils/accounting';
 import { ethers, BigNumber } from 'ethers';
 import { EventEmitter } from 'events';
 
@@ -68,6 +70,7 @@ export class DataTrackingService extends EventEmitter {
   private oracleService!: OracleService;
   private dbService: DatabaseService;
   private trackingInterval: NodeJS.Timeout | null = null;
+  private priceStream: PriceStreamService | null = null;
   private isTracking: boolean = false;
   private intervalMs: number;
   private lastCollectionTime: number = 0;
@@ -168,9 +171,11 @@ export class DataTrackingService extends EventEmitter {
   }
 
   /**
-   * Start tracking price data at regular intervals
+   * Start tracking price data, either at regular intervals or from a shared
+   * block-driven price stream
+   * @param priceStream Optional stream to consume instead of polling the oracle
    */
-  public async startTracking(): Promise<void> {
+  public async startTracking(priceStream?: PriceStreamService): Promise<void> {
     if (this.isTracking) {
       console.log('Tracking already in progress');
       return;
@@ -179,20 +184,28 @@ export class DataTrackingService extends EventEmitter {
     this.isTracking = true;
     console.log('Starting data tracking...');
     
-    // Collect data immediately on start
-    await this.collectAndStoreData();
-    
-    // Set up interval for regular collection
-    this.trackingInterval = setInterval(async () => {
+    if (priceStream) {
+      // Store every price the stream emits instead of polling the oracle
+      this.priceStream = priceStream;
+      priceStream.on(PriceStreamEvent.PRICE, this.handleStreamPrice);
+      console.log('Data tracking subscribed to the block-driven price stream');
+    } else {
+      // Collect data immediately on start
       await this.collectAndStoreData();
-    }, this.intervalMs);
+      
+      // Set up interval for regular collection
+      this.trackingInterval = setInterval(async () => {
+        await this.collectAndStoreData();
+      }, this.intervalMs);
+      
+      console.log(`Data tracking started with ${this.intervalMs/1000}s interval`);
+    }
     
     // Set up buffer flush interval
     this.bufferFlushInterval = setInterval(async () => {
       await this.flushPriceDataBuffer(true);
     }, this.bufferFlushIntervalMs);
     
-    console.log(`Data tracking started with ${this.intervalMs/1000}s interval`);
     console.log(`Buffer flush scheduled every ${this.bufferFlushIntervalMs/1000/60} minutes`);
   }
   
@@ -200,13 +213,20 @@ export class DataTrackingService extends EventEmitter {
    * Stop tracking price data
    */
   public stopTracking(): void {
-    if (!this.isTracking || !this.trackingInterval) {
+    if (!this.isTracking) {
       console.log('No tracking in progress to stop');
       return;
     }
     
-    clearInterval(this.trackingInterval);
-    this.trackingInterval = null;
+    if (this.trackingInterval) {
+      clearInterval(this.trackingInterval);
+      this.trackingInterval = null;
+    }
+    
+    if (this.priceStream) {
+      this.priceStream.off(PriceStreamEvent.PRICE, this.handleStreamPrice);
+      this.priceStream = null;
+    }
     
     if (this.bufferFlushInterval) {
       clearInterval(this.bufferFlushInterval);
@@ -230,50 +250,70 @@ export class DataTrackingService extends EventEmitter {
       // Fetch current price data from oracle
       const priceData = await this.oracleService.getOraclePrice();
       
-      // Determine if this price change is significant
-      const isSignificantChange = this.isSignificantPriceChange(priceData.uniswapPrice);
-      
-      // Add to buffer
-      this.priceDataBuffer.push(priceData);
-      
-      // Record current time
-      const currentTime = Math.floor(Date.now() / 1000);
-      
-      // Update last collection time tracking - only log based on configurable interval
-      if (currentTime - this.lastCollectionTime > this.logIntervalSeconds) {
-        console.log(`Collected price data: $${priceData.uniswapPrice} at ${new Date().toISOString()}`);
-        this.lastCollectionTime = currentTime;
-      }
-      
-      // Try to flush buffer if:
-      // 1. Buffer is full
-      // 2. It's been more than bufferFlushIntervalMs since last flush
-      // 3. There's a significant price change
-      const shouldFlush = 
-        this.priceDataBuffer.length >= this.maxBufferSize || 
-        currentTime - this.lastBufferFlush >= this.bufferFlushIntervalMs/1000 ||
-        isSignificantChange;
-        
-      if (shouldFlush) {
-        await this.flushPriceDataBuffer(isSignificantChange);
-      }
-      
-      // Record price data collection action (only for significant changes to reduce action writes)
-      if (isSignificantChange) {
-        await this.recordAction({
-          type: ActionType.PRICE_DATA_COLLECTED,
-          data: {
-            price: priceData.uniswapPrice
-          }
-        }, 'price data collection (significant change)', false); // Non-critical operation
-      }
-      
+      await this.storePriceData(priceData);
     } catch (error) {
       console.error('Error collecting and storing data:', error);
       this.recordDbError('collectAndStoreData', error, false);
     }
   }
   
+  /**
+   * Store a price pushed by the shared price stream
+   * @param priceData Price emitted by the stream
+   */
+  private handleStreamPrice = async (priceData: PriceData): Promise<void> => {
+    try {
+      await this.storePriceData(priceData);
+    } catch (error) {
+      console.error('Error storing streamed price data:', error);
+      this.recordDbError('handleStreamPrice', error, false);
+    }
+  };
+  
+  /**
+   * Buffer a price sample, flushing and recording it when significant
+   * @param priceData Price sample to store
+   */
+  private async storePriceData(priceData: PriceData): Promise<void> {
+    // Determine if this price change is significant
+    const isSignificantChange = this.isSignificantPriceChange(priceData.uniswapPrice);
+    
+    // Add to buffer
+    this.priceDataBuffer.push(priceData);
+    
+    // Record current time
+    const currentTime = Math.floor(Date.now() / 1000);
+    
+    // Update last collection time tracking - only log based on configurable interval
+    if (currentTime - this.lastCollectionTime > this.logIntervalSeconds) {
+      console.log(`Collected price data: $${priceData.uniswapPrice} at ${new Date().toISOString()}`);
+      this.lastCollectionTime = currentTime;
+    }
+    
+    // Try to flush buffer if:
+    // 1. Buffer is full
+    // 2. It's been more than bufferFlushIntervalMs since last flush
+    // 3. There's a significant price change
+    const shouldFlush = 
+      this.priceDataBuffer.length >= this.maxBufferSize || 
+      currentTime - this.lastBufferFlush >= this.bufferFlushIntervalMs/1000 ||
+      isSignificantChange;
+      
+    if (shouldFlush) {
+      await this.flushPriceDataBuffer(isSignificantChange);
+    }
+    
+    // Record price data collection action (only for significant changes to reduce action writes)
+    if (isSignificantChange) {
+      await this.recordAction({
+        type: ActionType.PRICE_DATA_COLLECTED,
+        data: {
+          price: priceData.uniswapPrice
+        }
+      }, 'price data collection (significant change)', false); // Non-critical operation
+    }
+  }
+  
   /**
    * Check if a price change is significant enough to record
    * @param currentPrice The current price to compare
@@ -452,6 +492,32 @@ export class DataTrackingService extends EventEmitter {
     }
   }
   
+  /**
+   * Record liquidity added to a live position
+   * @param position Position info after the increase
+   * @param amount0 Amount of token0 added
+   * @param amount1 Amount of token1 added
+   */
+  public async recordLiquidityIncreased(
+    position: PositionInfo,
+    amount0: ethers.BigNumber,
+    amount1: ethers.BigNumber
+  ): Promise<void> {
+    try {
+      await this.dbService.savePosition(position);
+      
+      await this.recordAction({
+        type: ActionType.LIQUIDITY_INCREASED,
+        tokenId: position.tokenId,
+        token0Amount: amount0,
+        token1Amount: amount1
+      }, `liquidity increase: ID ${position.tokenId}`, false);
+    } catch (error) {
+      console.error(`Error recording liquidity increase: ${error}`);
+      this.recordDbError('recordLiquidityIncreased', error, false);
+    }
+  }
+  
   /**
    * Record a position closed event
    * @param tokenId Position token ID
@@ -550,6 +616,39 @@ export class DataTrackingService extends EventEmitter {
     }
   }
 
+  /**
+   * Record a position on the pool that the strategy did not mint
+   * @param tokenId Position token ID
+   * @param position Position details
+   * @param policy How the position is handled (adopt, ignore or close)
+   */
+  public async recordUnmanagedPositionDetected(
+    tokenId: number,
+    position: PositionInfo,
+    policy: UnmanagedPositionPolicy
+  ): Promise<void> {
+    try {
+      // Adopted positions are tracked like the ones the strategy mints
+      if (policy === 'adopt') {
+        await this.dbService.savePosition({ ...position, isActive: true });
+      }
+
+      await this.recordAction({
+        type: ActionType.UNMANAGED_POSITION_DETECTED,
+        tokenId,
+        data: {
+          tickLower: position.tickLower,
+          tickUpper: position.tickUpper,
+          liquidity: position.liquidity.toString(),
+          policy
+        }
+      }, `unmanaged position detection: ID ${tokenId}`, false);
+    } catch (error) {
+      console.error(`Error recording unmanaged position detection: ${error}`);
+      this.recordDbError('recordUnmanagedPositionDetected', error, false);
+    }
+  }
+
   /**
    * Record a stray position closed event
    * @param tokenId Position token ID
@@ -640,6 +739,52 @@ export class DataTrackingService extends EventEmitter {
     }
   }
 
+  /**
+   * Record that the spot/TWAP manipulation guard blocked an operation
+   * @param operation Operation that was blocked (mint, close, swap, rebalance)
+   * @param deviation Spot and TWAP ticks at the time of the check
+   */
+  public async recordManipulationGuardTripped(
+    operation: string,
+    deviation: SpotTwapDeviation
+  ): Promise<void> {
+    try {
+      await this.recordAction({
+        type: ActionType.PRICE_MANIPULATION_GUARD_TRIPPED,
+        data: {
+          operation,
+          ...deviation
+        }
+      }, `manipulation guard trip: ${operation}`, false);
+    } catch (dbError) {
+      console.error(`Error recording manipulation guard trip: ${dbError}`);
+      this.recordDbError('recordManipulationGuardTripped', dbError, false);
+    }
+  }
+
+  /**
+   * Record that the pool price disagreed with the secondary price feed
+   * @param operation Operation that was blocked
+   * @param divergence Pool and feed prices at the time of the check
+   */
+  public async recordPriceFeedDivergence(
+    operation: string,
+    divergence: PriceFeedDivergence
+  ): Promise<void> {
+    try {
+      await this.recordAction({
+        type: ActionType.PRICE_FEED_DIVERGENCE,
+        data: {
+          operation,
+          ...divergence
+        }
+      }, `price feed divergence: ${operation}`, false);
+    } catch (dbError) {
+      console.error(`Error recording price feed divergence: ${dbError}`);
+      this.recordDbError('recordPriceFeedDivergence', dbError, false);
+    }
+  }
+
   /**
    * Record a general strategy error
    * @param component Component where error occurred
@@ -689,7 +834,107 @@ export class DataTrackingService extends EventEmitter {
       this.recordDbError('recordFeesCollected', error, false);
     }
   }
-  
+
+  /**
+   * Record fees collected from the live legs and added back to them
+   * @param amount0 token0 fees collected
+   * @param amount1 token1 fees collected
+   * @param feeValue Value of the collected fees in token1
+   * @param gasCostValue Estimated gas cost of compounding in token1
+   */
+  public async recordFeesCompounded(
+    amount0: ethers.BigNumber,
+    amount1: ethers.BigNumber,
+    feeValue: number,
+    gasCostValue: number
+  ): Promise<void> {
+    try {
+      await this.recordAction({
+        type: ActionType.FEES_COMPOUNDED,
+        token0Amount: amount0,
+        token1Amount: amount1,
+        data: {
+          feeValue,
+          gasCostValue
+        }
+      }, 'fees compounding', false);
+    } catch (error) {
+      console.error(`Error recording fees compounding: ${error}`);
+      this.recordDbError('recordFeesCompounded', error, false);
+    }
+  }
+
+  /**
+   * Record the profit and loss of the legs closed in a rebalance cycle
+   * @param cyclePnl Cycle profit and loss in raw token1
+   */
+  public async recordCyclePnl(cyclePnl: CyclePnl): Promise<void> {
+    const serialize = (pnl: Omit<LegPnl, 'tokenId'>) => ({
+      principalValue: pnl.principalValue.toString(),
+      feeValue: pnl.feeValue.toString(),
+      hodlValue: pnl.hodlValue.toString(),
+      balancedValue: pnl.balancedValue.toString(),
+      ilVsHodl: pnl.ilVsHodl.toString(),
+      ilVsBalanced: pnl.ilVsBalanced.toString(),
+      netVsHodl: pnl.netVsHodl.toString(),
+      netVsBalanced: pnl.netVsBalanced.toString(),
+      ilVsHodlPercent: pnl.ilVsHodlPercent,
+      ilVsBalancedPercent: pnl.ilVsBalancedPercent
+    });
+
+    try {
+      await this.recordAction({
+        type: ActionType.CYCLE_PNL_RECORDED,
+        data: {
+          cycle: cyclePnl.cycle,
+          ...serialize(cyclePnl),
+          legs: cyclePnl.legs.map((leg) => ({
+            tokenId: leg.tokenId,
+            ...serialize(leg)
+          }))
+        }
+      }, `cycle ${cyclePnl.cycle} profit and loss`, false);
+    } catch (error) {
+      console.error(`Error recording cycle profit and loss: ${error}`);
+      this.recordDbError('recordCyclePnl', error, false);
+    }
+  }
+
+  /**
+   * Record the outcome of a reconciliation run: one action per discrepancy
+   * and a summary
+   * @param report Reconciliation report
+   */
+  public async recordReconciliation(report: ReconciliationReport): Promise<void> {
+    try {
+      for (const discrepancy of report.discrepancies) {
+        await this.recordAction({
+          type: ActionType.RECONCILIATION_DISCREPANCY,
+          tokenId: discrepancy.tokenId,
+          data: {
+            kind: discrepancy.kind,
+            token: discrepancy.token,
+            expected: discrepancy.expected?.toString(),
+            actual: discrepancy.actual?.toString(),
+            details: discrepancy.details
+          }
+        }, `reconciliation discrepancy: ${discrepancy.kind}`, false);
+      }
+
+      await this.recordAction({
+        type: ActionType.RECONCILIATION_COMPLETED,
+        data: {
+          onChainPositionCount: report.onChainPositionCount,
+          trackedPositionCount: report.trackedPositionCount,
+          discrepancyCount: report.discrepancies.length
+        }
+      }, 'reconciliation summary', false);
+    } catch (error) {
+      console.error(`Error recording reconciliation: ${error}`);
+      this.recordDbError('recordReconciliation', error, false);
+    }
+  }
+
   /**
    * Helper method to format error messages consistently
    * @param error Error object or message
@@ -868,6 +1113,23 @@ export class DataTrackingService extends EventEmitter {
     }
   }
   
+  /**
+   * Get price history recorded since a given time
+   * @param sinceTimestamp Unix timestamp (seconds) to start from
+   * @returns Price data in ascending timestamp order
+   */
+  public async getPriceHistorySince(sinceTimestamp: number): Promise<PriceData[]> {
+    try {
+      const prices = await this.dbService.getPricesSince(sinceTimestamp);
+      this.lastSuccessfulOperation = Math.floor(Date.now() / 1000);
+      this.consecutiveFailures = 0;
+      return prices;
+    } catch (error) {
+      this.recordDbError('getPriceHistorySince', error, false);
+      return []; // Return empty array on error
+    }
+  }
+  
   /**
    * Get recent actions
    * @param limit Number of entries to return
@@ -926,4 +1188,66 @@ export class DataTrackingService extends EventEmitter {
       }
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Checkpoint the strategy state so a restart can resume from it
+   * @param state Strategy state to save
+   * @throws Error if the state could not be written, so the strategy never
+   * moves past a step a restart would not know about
+   */
+  public async saveStrategyState(state: StrategyState): Promise<void> {
+    try {
+      await this.dbService.saveStrategyState(state);
+      
+      // Update success metrics
+      this.lastSuccessfulOperation = Math.floor(Date.now() / 1000);
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      console.error(`Error saving strategy state: ${error}`);
+      this.recordDbError('saveStrategyState', error, true);
+      throw new Error(`Error saving strategy state: ${error}`);
+    }
+  }
+
+  /**
+   * Load the last checkpointed strategy state of a pool
+   * @param poolAddress Pool the strategy runs on
+   * @returns Saved strategy state, or null if none was saved
+   * @throws Error if the state could not be read, so a database outage is
+   * never mistaken for a fresh start
+   */
+  public async loadStrategyState(poolAddress: string): Promise<StrategyState | null> {
+    try {
+      return await this.dbService.getStrategyState(poolAddress);
+    } catch (error) {
+      console.error(`Error loading strategy state: ${error}`);
+      this.recordDbError('loadStrategyState', error, true);
+      throw new Error(`Error loading strategy state: ${error}`);
+    }
+  }
+
+  /**
+   * Load the most recently saved strategy stats
+   * @returns Saved strategy stats, or null if none exist
+   */
+  public async loadLatestStats(): Promise<StrategyStats | null> {
+    return this.dbService.getLatestStats();
+  }
+
+  /**
+   * Load every position the database tracks as active
+   * @returns Active positions
+   */
+  public async loadActivePositions(): Promise<PositionInfo[]> {
+    return this.dbService.getActivePositions();
+  }
+
+  /**
+   * Load a tracked position
+   * @param tokenId Position token ID
+   * @returns Saved position, or null if it is not tracked
+   */
+  public async loadPosition(tokenId: number): Promise<PositionInfo | null> {
+    return this.dbService.getPosition(tokenId.toString());
+  }
+}
@@ -6,7 +6,9 @@ import {
   PositionInfo, 
   ActionEvent, 
   StrategyStats, 
-  DbStrategyStats
+  DbStrategyStats,
+  StrategyState,
+  DbStrategyState
 } from '../utils/types';
 import { BigNumber } from 'ethers';
 
@@ -21,6 +23,7 @@ export class DatabaseService {
   private positionCollection: Collection | null = null;
   private actionCollection: Collection | null = null;
   private statsCollection: Collection | null = null;
+  private stateCollection: Collection | null = null;
 
   constructor(mongoUri: string, dbName: string) {
     // Add connection options to handle connection issues
@@ -75,16 +78,23 @@ export class DatabaseService {
         console.log('Created stats collection');
       }
       
+      if (!collectionNames.includes('state')) {
+        await db.createCollection('state');
+        console.log('Created state collection');
+      }
+      
       // Get collection references
       this.priceCollection = db.collection('prices');
       this.positionCollection = db.collection('positions');
       this.actionCollection = db.collection('actions');
       this.statsCollection = db.collection('stats');
+      this.stateCollection = db.collection('state');
       
       // Create indexes
       await this.priceCollection.createIndex({ timestamp: 1 });
       await this.positionCollection.createIndex({ tokenId: 1 }, { unique: true });
       await this.actionCollection.createIndex({ timestamp: 1 });
+      await this.stateCollection.createIndex({ poolAddress: 1 }, { unique: true });
       
       this.connected = true;
       console.log(`Connected to MongoDB database: ${this.dbName}`);
@@ -156,6 +166,14 @@ export class DatabaseService {
       dbPosition.token1Amount = position.token1Amount.toString();
     }
     
+    if (position.balancedHold0) {
+      dbPosition.balancedHold0 = position.balancedHold0.toString();
+    }
+    
+    if (position.balancedHold1) {
+      dbPosition.balancedHold1 = position.balancedHold1.toString();
+    }
+    
     if (position.feeGrowthInside0LastX128) {
       dbPosition.feeGrowthInside0 = position.feeGrowthInside0LastX128.toString();
     }
@@ -244,6 +262,14 @@ export class DatabaseService {
       position.token1Amount = BigNumber.from(dbPosition.token1Amount);
     }
     
+    if (dbPosition.balancedHold0) {
+      position.balancedHold0 = BigNumber.from(dbPosition.balancedHold0);
+    }
+    
+    if (dbPosition.balancedHold1) {
+      position.balancedHold1 = BigNumber.from(dbPosition.balancedHold1);
+    }
+    
     if (dbPosition.feeGrowthInside0) {
       position.feeGrowthInside0LastX128 = BigNumber.from(dbPosition.feeGrowthInside0);
     }
@@ -299,7 +325,8 @@ export class DatabaseService {
     }
 
     try {
-      const dbPosition = await this.positionCollection!.findOne({ tokenId });
+      // Positions are stored with a numeric tokenId
+      const dbPosition = await this.positionCollection!.findOne({ tokenId: Number(tokenId) });
       if (!dbPosition) return null;
       return this.convertPositionFromDb(dbPosition as unknown as DbPositionInfo);
     } catch (error) {
@@ -308,6 +335,21 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get every position marked active
+   * @returns Active positions
+   */
+  public async getActivePositions(): Promise<PositionInfo[]> {
+    if (!this.connected || !this.positionCollection) {
+      await this.connect();
+    }
+
+    const dbPositions = await this.positionCollection!.find({ isActive: true }).toArray();
+    return (dbPositions as unknown as DbPositionInfo[]).map(dbPosition =>
+      this.convertPositionFromDb(dbPosition)
+    );
+  }
+
   /**
    * Record an action event
    * @param action Action event to record
@@ -361,7 +403,7 @@ export class DatabaseService {
     try {
       const dbStats = await this.statsCollection!.findOne(
         {},
-        { sort: { startTimestamp: -1 } }
+        { sort: { startTimestamp: -1 }, projection: { _id: 0 } }
       );
       
       if (!dbStats) return null;
@@ -384,6 +426,75 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Save the strategy state, one document per pool
+   * @param state Strategy state to save
+   */
+  public async saveStrategyState(state: StrategyState): Promise<void> {
+    if (!this.connected || !this.stateCollection) {
+      await this.connect();
+    }
+
+    const dbState: DbStrategyState = {
+      poolAddress: state.poolAddress.toLowerCase(),
+      legTokenIds: state.legTokenIds,
+      ownedTokenIds: state.ownedTokenIds,
+      closeBalanceToken0: state.closeBalances.token0.toString(),
+      closeBalanceToken1: state.closeBalances.token1.toString(),
+      retainedFeeToken0: state.retainedFees.token0.toString(),
+      retainedFeeToken1: state.retainedFees.token1.toString(),
+      lastRebalancePrice: state.lastRebalancePrice,
+      lastRebalanceSqrtPriceX96: state.lastRebalanceSqrtPriceX96.toString(),
+      lastCompoundTimestamp: state.lastCompoundTimestamp,
+      statsStartTimestamp: state.statsStartTimestamp,
+      updatedAt: state.updatedAt,
+      rebalance: state.rebalance
+    };
+
+    await this.stateCollection!.updateOne(
+      { poolAddress: dbState.poolAddress },
+      { $set: dbState },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Get the saved strategy state of a pool
+   * @param poolAddress Pool the strategy runs on
+   * @returns Saved strategy state or null if not found
+   */
+  public async getStrategyState(poolAddress: string): Promise<StrategyState | null> {
+    if (!this.connected || !this.stateCollection) {
+      await this.connect();
+    }
+
+    const dbState = await this.stateCollection!.findOne({
+      poolAddress: poolAddress.toLowerCase()
+    }) as unknown as DbStrategyState | null;
+    if (!dbState) return null;
+
+    return {
+      poolAddress: dbState.poolAddress,
+      legTokenIds: dbState.legTokenIds,
+      // Older states only know their legs
+      ownedTokenIds: dbState.ownedTokenIds ?? dbState.legTokenIds,
+      closeBalances: {
+        token0: BigNumber.from(dbState.closeBalanceToken0),
+        token1: BigNumber.from(dbState.closeBalanceToken1)
+      },
+      retainedFees: {
+        token0: BigNumber.from(dbState.retainedFeeToken0 ?? 0),
+        token1: BigNumber.from(dbState.retainedFeeToken1 ?? 0)
+      },
+      lastRebalancePrice: dbState.lastRebalancePrice,
+      lastRebalanceSqrtPriceX96: BigNumber.from(dbState.lastRebalanceSqrtPriceX96),
+      lastCompoundTimestamp: dbState.lastCompoundTimestamp,
+      statsStartTimestamp: dbState.statsStartTimestamp,
+      updatedAt: dbState.updatedAt,
+      rebalance: dbState.rebalance ?? null
+    };
+  }
+
   /**
    * Get recent price data
    * @param limit Number of entries to return
@@ -406,6 +517,27 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get price data recorded since a given time
+   * @param sinceTimestamp Unix timestamp (seconds) to start from
+   * @returns Price data in ascending timestamp order
+   */
+  public async getPricesSince(sinceTimestamp: number): Promise<PriceData[]> {
+    if (!this.connected || !this.priceCollection) {
+      await this.connect();
+    }
+
+    try {
+      const prices = await this.priceCollection!.find({ timestamp: { $gte: sinceTimestamp } })
+        .sort({ timestamp: 1 })
+        .toArray();
+      return prices as unknown as PriceData[];
+    } catch (error) {
+      console.error('Error getting prices since timestamp:', error);
+      return [];
+    }
+  }
+
   /**
    * Get recent actions
    * @param limit Number of entries to return
@@ -0,0 +1,386 @@
+import { ethers } from "ethers";
+import {
+	NetworkConfig,
+	RpcEndpointConfig,
+	RpcEndpointHealth,
+	RpcHealthConfig,
+} from "../utils/types";
+
+const DEFAULT_HEALTH_CONFIG: RpcHealthConfig = {
+	timeoutMs: 10000,
+	maxBlockLag: 5,
+	healthCheckIntervalMs: 30000,
+	maxConsecutiveFailures: 3,
+	cooldownMs: 60000,
+};
+
+// Number of recent requests used to compute an endpoint's error rate
+const ERROR_WINDOW = 20;
+
+// JSON-RPC error code used by most providers for rate limiting
+const RATE_LIMIT_ERROR_CODE = -32005;
+
+/**
+ * Runtime state of a single RPC endpoint
+ */
+interface RpcEndpoint {
+	config: RpcEndpointConfig;
+	provider: ethers.providers.StaticJsonRpcProvider;
+	blockNumber: number;
+	latencyMs: number;
+	recentResults: boolean[]; // true for success, most recent last
+	consecutiveFailures: number;
+	cooldownUntil: number;
+	stale: boolean;
+}
+
+/**
+ * JSON-RPC provider that spreads requests over several endpoints: it prefers
+ * the highest priority healthy endpoint and fails over on timeouts, transport
+ * errors, rate limits and endpoints whose block height lags the others
+ */
+export class FailoverProvider extends ethers.providers.JsonRpcProvider {
+	private endpoints: RpcEndpoint[];
+	private healthConfig: RpcHealthConfig;
+	private healthCheckTimer: NodeJS.Timeout | null = null;
+	private activeUrl: string | null = null;
+
+	constructor(
+		endpointConfigs: RpcEndpointConfig[],
+		chainId: number,
+		healthConfig?: Partial<RpcHealthConfig>
+	) {
+		if (endpointConfigs.length === 0) {
+			throw new Error("At least one RPC endpoint must be configured");
+		}
+
+		const sorted = [...endpointConfigs].sort(
+			(a, b) => a.priority - b.priority
+		);
+		super(sorted[0].url, chainId);
+
+		this.healthConfig = { ...DEFAULT_HEALTH_CONFIG, ...healthConfig };
+		this.endpoints = sorted.map((config) => ({
+			config,
+			provider: new ethers.providers.StaticJsonRpcProvider(
+				{ url: config.url, timeout: this.healthConfig.timeoutMs },
+				chainId
+			),
+			blockNumber: 0,
+			latencyMs: 0,
+			recentResults: [],
+			consecutiveFailures: 0,
+			cooldownUntil: 0,
+			stale: false,
+		}));
+
+		if (this.endpoints.length > 1) {
+			this.healthCheckTimer = setInterval(() => {
+				this.checkHealth().catch((error) =>
+					console.error("Error checking RPC health:", error)
+				);
+			}, this.healthConfig.healthCheckIntervalMs);
+			// Don't keep the process alive just for health checks
+			this.healthCheckTimer.unref();
+		}
+	}
+
+	/**
+	 * Send a JSON-RPC request to the best available endpoint, failing over
+	 * to the next one on transport errors
+	 * @param method JSON-RPC method
+	 * @param params JSON-RPC params
+	 * @returns The JSON-RPC result
+	 */
+	public async send(method: string, params: Array<any>): Promise<any> {
+		const candidates = this.rankEndpoints();
+		let lastError: any = null;
+
+		for (const endpoint of candidates) {
+			const startedAt = Date.now();
+			try {
+				const result = await endpoint.provider.send(method, params);
+				this.recordSuccess(endpoint, Date.now() - startedAt);
+				this.setActive(endpoint);
+				return result;
+			} catch (error: any) {
+				// The node answered: the request itself is bad, not the endpoint
+				if (!this.isEndpointFailure(error)) {
+					this.recordSuccess(endpoint, Date.now() - startedAt);
+					if (
+						method === "eth_sendRawTransaction" &&
+						this.isAlreadyKnown(error)
+					) {
+						// A previous endpoint broadcast it before timing out
+						return ethers.utils.keccak256(params[0]);
+					}
+					throw error;
+				}
+
+				this.recordFailure(endpoint);
+				lastError = error;
+				console.error(
+					`RPC ${endpoint.config.url} failed on ${method}: ${
+						error.message ?? error
+					}`
+				);
+			}
+		}
+
+		throw new Error(
+			`All RPC endpoints failed for ${method}: ${lastError?.message ?? lastError}`
+		);
+	}
+
+	/**
+	 * Poll every endpoint's block height and mark those lagging behind
+	 */
+	public async checkHealth(): Promise<void> {
+		await Promise.all(
+			this.endpoints.map(async (endpoint) => {
+				const startedAt = Date.now();
+				try {
+					const blockNumber = Number(
+						await endpoint.provider.send("eth_blockNumber", [])
+					);
+					endpoint.blockNumber = blockNumber;
+					this.recordSuccess(endpoint, Date.now() - startedAt);
+				} catch (error) {
+					this.recordFailure(endpoint);
+				}
+			})
+		);
+
+		const highestBlock = Math.max(
+			...this.endpoints.map((endpoint) => endpoint.blockNumber)
+		);
+
+		for (const endpoint of this.endpoints) {
+			const stale =
+				highestBlock - endpoint.blockNumber > this.healthConfig.maxBlockLag;
+			if (stale !== endpoint.stale) {
+				console.log(
+					`RPC ${endpoint.config.url} is ${
+						stale ? "stale" : "back in sync"
+					} at block ${endpoint.blockNumber} (highest ${highestBlock})`
+				);
+			}
+			endpoint.stale = stale;
+		}
+	}
+
+	/**
+	 * Report the health of every configured endpoint
+	 * @returns Health per endpoint, highest priority first
+	 */
+	public getHealthReport(): RpcEndpointHealth[] {
+		const now = Date.now();
+		return this.endpoints.map((endpoint) => ({
+			url: endpoint.config.url,
+			priority: endpoint.config.priority,
+			blockNumber: endpoint.blockNumber,
+			latencyMs: endpoint.latencyMs,
+			errorRate: this.errorRate(endpoint),
+			consecutiveFailures: endpoint.consecutiveFailures,
+			stale: endpoint.stale,
+			coolingDown: endpoint.cooldownUntil > now,
+			active: endpoint.config.url === this.activeUrl,
+		}));
+	}
+
+	/**
+	 * Stop the background health checks
+	 */
+	public stopHealthChecks(): void {
+		if (this.healthCheckTimer) {
+			clearInterval(this.healthCheckTimer);
+			this.healthCheckTimer = null;
+		}
+	}
+
+	/**
+	 * Order endpoints by preference: healthy ones first by priority then
+	 * error rate, and unhealthy ones last so they are still tried as a
+	 * final resort
+	 * @returns Endpoints in the order they should be tried
+	 */
+	private rankEndpoints(): RpcEndpoint[] {
+		const now = Date.now();
+		const isHealthy = (endpoint: RpcEndpoint) =>
+			!endpoint.stale && endpoint.cooldownUntil <= now;
+
+		return [...this.endpoints].sort((a, b) => {
+			const healthDiff = Number(isHealthy(b)) - Number(isHealthy(a));
+			if (healthDiff !== 0) {
+				return healthDiff;
+			}
+			if (a.config.priority !== b.config.priority) {
+				return a.config.priority - b.config.priority;
+			}
+			return this.errorRate(a) - this.errorRate(b);
+		});
+	}
+
+	/**
+	 * Whether an error means the endpoint is unusable rather than the
+	 * request being rejected by a working node
+	 * @param error Error thrown by the endpoint provider
+	 * @returns True if the request should be retried elsewhere
+	 */
+	private isEndpointFailure(error: any): boolean {
+		// A node that answered with a JSON-RPC error is healthy, except when
+		// it is rate limiting us. Timeouts, transport errors and bad HTTP
+		// statuses carry no JSON-RPC error
+		const rpcError = this.getRpcError(error);
+		if (rpcError) {
+			return rpcError.code === RATE_LIMIT_ERROR_CODE;
+		}
+		return true;
+	}
+
+	/**
+	 * Extract the JSON-RPC error sent by the node. ethers wraps it in a
+	 * SERVER_ERROR, keeping the original as `error` and the response as `body`
+	 * @param error Error thrown by the endpoint provider
+	 * @returns The node's error code and message, or null if the node never
+	 * answered with a JSON-RPC error
+	 */
+	private getRpcError(error: any): { code: number; message: string } | null {
+		if (typeof error?.code === "number") {
+			return { code: error.code, message: String(error.message ?? "") };
+		}
+		if (typeof error?.error?.code === "number") {
+			return {
+				code: error.error.code,
+				message: String(error.error.message ?? ""),
+			};
+		}
+
+		if (typeof error?.body === "string") {
+			try {
+				const body = JSON.parse(error.body);
+				if (typeof body?.error?.code === "number") {
+					return {
+						code: body.error.code,
+						message: String(body.error.message ?? ""),
+					};
+				}
+			} catch {
+				// Not a JSON-RPC response, e.g. an HTML error page
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Whether a node rejected a raw transaction because it already has it
+	 * @param error Error thrown by eth_sendRawTransaction
+	 * @returns True if the transaction is already in the node's mempool
+	 */
+	private isAlreadyKnown(error: any): boolean {
+		const message = (
+			this.getRpcError(error)?.message ?? String(error?.message ?? error)
+		).toLowerCase();
+		return message.includes("already known");
+	}
+
+	/**
+	 * Record a successful request against an endpoint
+	 * @param endpoint The endpoint
+	 * @param latencyMs Round trip of the request
+	 */
+	private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+		endpoint.latencyMs = latencyMs;
+		endpoint.consecutiveFailures = 0;
+		this.pushResult(endpoint, true);
+	}
+
+	/**
+	 * Record a failed request and cool the endpoint down after repeated failures
+	 * @param endpoint The endpoint
+	 */
+	private recordFailure(endpoint: RpcEndpoint): void {
+		endpoint.consecutiveFailures += 1;
+		this.pushResult(endpoint, false);
+
+		if (
+			endpoint.consecutiveFailures >= this.healthConfig.maxConsecutiveFailures
+		) {
+			endpoint.cooldownUntil = Date.now() + this.healthConfig.cooldownMs;
+			console.log(
+				`RPC ${endpoint.config.url} failed ${
+					endpoint.consecutiveFailures
+				} times in a row, cooling down for ${
+					this.healthConfig.cooldownMs / 1000
+				}s`
+			);
+		}
+	}
+
+	/**
+	 * Append a request outcome to the rolling error window
+	 * @param endpoint The endpoint
+	 * @param success Whether the request succeeded
+	 */
+	private pushResult(endpoint: RpcEndpoint, success: boolean): void {
+		endpoint.recentResults.push(success);
+		if (endpoint.recentResults.length > ERROR_WINDOW) {
+			endpoint.recentResults.shift();
+		}
+	}
+
+	/**
+	 * Fraction of failed requests in the rolling window
+	 * @param endpoint The endpoint
+	 * @returns Error rate between 0 and 1
+	 */
+	private errorRate(endpoint: RpcEndpoint): number {
+		if (endpoint.recentResults.length === 0) {
+			return 0;
+		}
+		const failures = endpoint.recentResults.filter((ok) => !ok).length;
+		return failures / endpoint.recentResults.length;
+	}
+
+	/**
+	 * Track which endpoint is serving requests and log failovers
+	 * @param endpoint The endpoint that just served a request
+	 */
+	private setActive(endpoint: RpcEndpoint): void {
+		if (this.activeUrl === endpoint.config.url) {
+			return;
+		}
+
+		if (this.activeUrl !== null) {
+			console.log(
+				`RPC failover: ${this.activeUrl} -> ${endpoint.config.url}`
+			);
+			for (const health of this.getHealthReport()) {
+				console.log(
+					`  ${health.url}: block ${health.blockNumber}, ${
+						health.latencyMs
+					}ms, error rate ${(health.errorRate * 100).toFixed(0)}%${
+						health.stale ? ", stale" : ""
+					}${health.coolingDown ? ", cooling down" : ""}`
+				);
+			}
+		}
+		this.activeUrl = endpoint.config.url;
+	}
+}
+
+/**
+ * Build the provider for a network config, using every configured RPC
+ * endpoint and falling back to the single rpcUrl
+ * @param config Network configuration
+ * @returns Provider with automatic failover
+ */
+export function createProvider(config: NetworkConfig): FailoverProvider {
+	const endpoints: RpcEndpointConfig[] =
+		config.rpcUrls && config.rpcUrls.length > 0
+			? config.rpcUrls
+			: [{ url: config.rpcUrl, priority: 0 }];
+
+	return new FailoverProvider(endpoints, config.chainId, config.rpcHealth);
+}
@@ -1,10 +1,29 @@
 import { Contract, ethers, BigNumber } from "ethers";
-import { NetworkConfig, PositionInfo } from "../utils/types";
+import {
+	ClosedPosition,
+	FeePolicyConfig,
+	FeePolicyMode,
+	MintedPosition,
+	MintRequest,
+	NetworkConfig,
+	PositionInfo,
+	UncollectedFees,
+} from "../utils/types";
 import NonfungiblePositionManagerABI from "../contracts/abis/INonfungiblePositionManager.json";
 import IERC20ABI from "../contracts/abis/IERC20.json";
 import IUniswapV3PoolABI from "../contracts/abis/IUniswapV3Pool.json";
 import { OracleService } from "./OracleService";
 import { SwapService } from "./SwapService";
+import { createSigner } from "./NonceManager";
+import {
+	alignTickToSpacing,
+	getAmountsForLiquidity,
+	getFeeGrowthInside,
+	getFeesAccrued,
+	getSqrtRatioAtTick,
+	quoteToken0InToken1,
+	tickToPrice,
+} from "../utils/uniswapMath";
 
 /*
  * Service for managing Uniswap V3 liquidity positions
@@ -23,10 +42,7 @@ export class LiquidityManager {
 	private poolFee: number | null = null;
 	private poolContract: Contract;
 	private swapService: SwapService | null = null;
-
-	// wstETH token address on Base
-	private readonly WSTETH_ADDRESS =
-		"0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452"; // Base wstETH address
+	private feePolicy: FeePolicyConfig;
 
 	// Event topics for transaction parsing
 	private readonly EVENT_TOPICS = {
@@ -46,7 +62,7 @@ export class LiquidityManager {
 		provider: ethers.providers.JsonRpcProvider
 	) {
 		this.provider = provider;
-		this.signer = new ethers.Wallet(privateKey, this.provider);
+		this.signer = createSigner(privateKey, this.provider);
 		this.walletAddress = this.signer.address;
 		this.positionManager = new ethers.Contract(
 			config.uniswap.positionManager,
@@ -59,6 +75,24 @@ export class LiquidityManager {
 			this.signer
 		);
 
+		this.feePolicy = config.strategy.feePolicy ?? { mode: "compound" };
+		if (
+			this.feePolicy.mode === "sweep" &&
+			!ethers.utils.isAddress(this.feePolicy.treasuryAddress ?? "")
+		) {
+			throw new Error(
+				"Invalid fee policy: sweep requires a valid treasuryAddress"
+			);
+		}
+		if (
+			this.feePolicy.mode === "convert" &&
+			!ethers.utils.isAddress(this.feePolicy.convertToken ?? "")
+		) {
+			throw new Error(
+				"Invalid fee policy: convert requires a valid convertToken"
+			);
+		}
+
 		console.log(`
       --------------------------------
       Liquidity Manager constructor
@@ -199,6 +233,43 @@ export class LiquidityManager {
 		}
 	}
 
+	/**
+	 * Find and decode every position manager event with a topic that belongs
+	 * to a given tokenId (indexed as the first topic argument)
+	 * @param receipt Transaction receipt
+	 * @param eventTopic The event topic to look for
+	 * @param tokenId The position token ID
+	 * @param abiTypes The ABI types to decode the data
+	 * @returns Decoded event data, in log order
+	 */
+	private findEventsForToken<T>(
+		receipt: ethers.ContractReceipt,
+		eventTopic: string,
+		tokenId: number,
+		abiTypes: string[]
+	): T[] {
+		const tokenTopic = ethers.utils.hexZeroPad(
+			BigNumber.from(tokenId).toHexString(),
+			32
+		);
+
+		return (receipt.logs ?? [])
+			.filter(
+				(log: any) =>
+					log.topics[0] === eventTopic &&
+					log.topics[1]?.toLowerCase() === tokenTopic.toLowerCase() &&
+					log.address.toLowerCase() ===
+						this.positionManager.address.toLowerCase()
+			)
+			.map(
+				(log: any) =>
+					ethers.utils.defaultAbiCoder.decode(
+						abiTypes,
+						log.data
+					) as unknown as T
+			);
+	}
+
 	/**
 	 * Helper function to find and parse a specific event from a transaction receipt
 	 * @param receipt Transaction receipt
@@ -376,6 +447,80 @@ export class LiquidityManager {
 		`);
 	}
 
+	/**
+	 * Adds liquidity to an existing position
+	 * @param tokenId ID of the position token
+	 * @param amount0Desired Desired amount of token0
+	 * @param amount1Desired Desired amount of token1
+	 * @param amount0Min Minimum amount of token0
+	 * @param amount1Min Minimum amount of token1
+	 * @returns Liquidity added and actual amounts used
+	 */
+	public async increaseLiquidity(
+		tokenId: number,
+		amount0Desired: BigNumber,
+		amount1Desired: BigNumber,
+		amount0Min: BigNumber,
+		amount1Min: BigNumber
+	): Promise<{
+		liquidity: BigNumber;
+		amount0Used: BigNumber;
+		amount1Used: BigNumber;
+	}> {
+		try {
+			// Approve tokens for position manager
+			await this.approveTokens(amount0Desired, amount1Desired);
+
+			// Set deadline to 10 minutes from now
+			const deadline = Math.floor(Date.now() / 1000) + 600;
+
+			const params = {
+				tokenId,
+				amount0Desired,
+				amount1Desired,
+				amount0Min,
+				amount1Min,
+				deadline,
+			};
+
+			this.logTokenAmounts(
+				`Increasing liquidity for position ${tokenId} with`,
+				amount0Desired,
+				amount1Desired
+			);
+
+			const tx = await this.positionManager.increaseLiquidity(params);
+			console.log(`Increase liquidity transaction hash: ${tx.hash}`);
+
+			// Wait for the transaction to confirm
+			const receipt = await tx.wait();
+
+			// Parse the event to get amounts
+			const decodedData = this.findAndParseEvent<
+				[BigNumber, BigNumber, BigNumber]
+			>(receipt, this.EVENT_TOPICS.increaseLiquidity, [
+				"uint128",
+				"uint256",
+				"uint256",
+			]);
+
+			const liquidity = decodedData[0];
+			const amount0Used = decodedData[1];
+			const amount1Used = decodedData[2];
+
+			this.logTokenAmounts(
+				`Liquidity increased by ${liquidity.toString()}. Used:`,
+				amount0Used,
+				amount1Used
+			);
+
+			return { liquidity, amount0Used, amount1Used };
+		} catch (error) {
+			console.error("Error increasing liquidity:", error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Decreases liquidity in a position
 	 * @param tokenId ID of the position token
@@ -451,69 +596,92 @@ export class LiquidityManager {
 	}
 
 	/**
-	 * Checks if a position has any uncollected fees without performing a transaction
+	 * Compute the fees a position could collect right now from the pool's fee
+	 * growth accumulators, without simulating a transaction
 	 * @param tokenId ID of the position token
-	 * @returns Boolean indicating if there are any fees to collect and estimated amounts
+	 * @returns Uncollected token0 and token1, including tokensOwed
 	 */
-	public async hasUncollectedFees(
-		tokenId: number
-	): Promise<{ hasFees: boolean; amount0: BigNumber; amount1: BigNumber }> {
+	public async getUncollectedFees(tokenId: number): Promise<UncollectedFees> {
 		try {
-			const MAX_UINT128 = BigNumber.from(
-				"0xffffffffffffffffffffffffffffffff"
-			); // 2^128 - 1
+			const position = await this.positionManager.positions(tokenId);
 
-			const params = {
-				tokenId,
-				recipient: this.walletAddress,
-				amount0Max: MAX_UINT128,
-				amount1Max: MAX_UINT128,
-			};
+			const [slot0, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lower, upper] =
+				await Promise.all([
+					this.poolContract.slot0(),
+					this.poolContract.feeGrowthGlobal0X128(),
+					this.poolContract.feeGrowthGlobal1X128(),
+					this.poolContract.ticks(position.tickLower),
+					this.poolContract.ticks(position.tickUpper),
+				]);
 
-			// Use callStatic to simulate the collect call without sending a transaction
-			const result = await this.positionManager.callStatic.collect(
-				params
+			const feeGrowthInside0X128 = getFeeGrowthInside(
+				position.tickLower,
+				position.tickUpper,
+				slot0.tick,
+				feeGrowthGlobal0X128,
+				lower.feeGrowthOutside0X128,
+				upper.feeGrowthOutside0X128
+			);
+			const feeGrowthInside1X128 = getFeeGrowthInside(
+				position.tickLower,
+				position.tickUpper,
+				slot0.tick,
+				feeGrowthGlobal1X128,
+				lower.feeGrowthOutside1X128,
+				upper.feeGrowthOutside1X128
 			);
 
-			const amount0 = result.amount0 || BigNumber.from(0);
-			const amount1 = result.amount1 || BigNumber.from(0);
-
-			const hasFees = !amount0.isZero() || !amount1.isZero();
-
-			if (hasFees) {
-				console.log(`Position ${tokenId} has uncollected fees:`, {
-					token0: ethers.utils.formatUnits(
-						amount0,
-						this.token0Decimals!
-					),
-					token1: ethers.utils.formatUnits(
-						amount1,
-						this.token1Decimals!
-					),
-				});
-			} else {
-				console.log(`Position ${tokenId} has no uncollected fees`);
-			}
+			const amount0 = position.tokensOwed0.add(
+				getFeesAccrued(
+					position.liquidity,
+					feeGrowthInside0X128,
+					position.feeGrowthInside0LastX128
+				)
+			);
+			const amount1 = position.tokensOwed1.add(
+				getFeesAccrued(
+					position.liquidity,
+					feeGrowthInside1X128,
+					position.feeGrowthInside1LastX128
+				)
+			);
 
-			return {
-				hasFees,
-				amount0,
-				amount1,
-			};
+			return { tokenId, amount0, amount1 };
 		} catch (error) {
-			console.error(
-				`Error checking uncollected fees for token ${tokenId}:`,
-				error
+			throw new Error(
+				`Error computing uncollected fees for token ${tokenId}: ${error}`
 			);
-			// If there's an error, assume there might be fees to be safe
-			return {
-				hasFees: true,
-				amount0: BigNumber.from(0),
-				amount1: BigNumber.from(0),
-			};
 		}
 	}
 
+	/**
+	 * Checks if a position has any uncollected fees without performing a transaction
+	 * @param tokenId ID of the position token
+	 * @returns Boolean indicating if there are any fees to collect and the exact amounts
+	 */
+	public async hasUncollectedFees(
+		tokenId: number
+	): Promise<{ hasFees: boolean; amount0: BigNumber; amount1: BigNumber }> {
+		const { amount0, amount1 } = await this.getUncollectedFees(tokenId);
+
+		const hasFees = !amount0.isZero() || !amount1.isZero();
+
+		if (hasFees) {
+			console.log(`Position ${tokenId} has uncollected fees:`, {
+				token0: ethers.utils.formatUnits(amount0, this.token0Decimals!),
+				token1: ethers.utils.formatUnits(amount1, this.token1Decimals!),
+			});
+		} else {
+			console.log(`Position ${tokenId} has no uncollected fees`);
+		}
+
+		return {
+			hasFees,
+			amount0,
+			amount1,
+		};
+	}
+
 	/**
 	 * Collects fees from a position
 	 * @param tokenId ID of the position token
@@ -583,63 +751,107 @@ export class LiquidityManager {
 	}
 
 	/**
-	 * Gets information about a position
+	 * Gets information about a position, including the token amounts its
+	 * liquidity is worth at the current price
 	 * @param tokenId ID of the position token
-	 * @param currentTick Optional current tick to avoid redundant calls
+	 * @param poolState Optional current sqrt price and tick to avoid redundant calls
 	 * @returns Position information
 	 */
 	public async getPositionInfo(
 		tokenId: number,
-		currentTick?: number
+		poolState?: { sqrtPriceX96: BigNumber; tick: number }
 	): Promise<PositionInfo> {
 		try {
 			// Get position data from contract
 			const position = await this.positionManager.positions(tokenId);
-
-			// Calculate the price boundaries
-			const priceLower = this.tickToPrice(
-				position.tickLower,
-				this.token0Decimals!,
-				this.token1Decimals!
-			);
-			const priceUpper = this.tickToPrice(
-				position.tickUpper,
-				this.token0Decimals!,
-				this.token1Decimals!
-			);
-
-			// Check if the position is in range
-			let fetchedTick: number;
-			if (currentTick === undefined) {
-				const [, tick] = await this.poolContract.slot0();
-				fetchedTick = tick;
-			} else {
-				fetchedTick = currentTick;
-			}
-
-			const inRange =
-				position.tickLower <= fetchedTick &&
-				fetchedTick <= position.tickUpper;
-
-			// Get detailed info about this position
-			return {
-				tickLower: position.tickLower,
-				tickUpper: position.tickUpper,
-				liquidity: position.liquidity,
-				inRange,
-				tokenId,
-				feeGrowthInside0LastX128: position.feeGrowthInside0LastX128,
-				feeGrowthInside1LastX128: position.feeGrowthInside1LastX128,
-				priceLower,
-				priceUpper,
-				isActive: !position.liquidity.isZero(),
-			};
+			return await this.buildPositionInfo(tokenId, position, poolState);
 		} catch (error) {
 			console.error(`Error getting position info for token ${tokenId}`);
 			throw error;
 		}
 	}
 
+	/**
+	 * Whether a position belongs to the configured pool
+	 * @param position Raw position data from the position manager
+	 * @returns True if its token pair and fee tier match the pool
+	 */
+	private isOnPool(position: any): boolean {
+		return (
+			position.token0.toLowerCase() === this.token0!.toLowerCase() &&
+			position.token1.toLowerCase() === this.token1!.toLowerCase() &&
+			position.fee === this.poolFee
+		);
+	}
+
+	/**
+	 * Turn raw position manager data into position information
+	 * @param tokenId ID of the position token
+	 * @param position Raw position data from the position manager
+	 * @param poolState Optional current sqrt price and tick to avoid redundant calls
+	 * @returns Position information
+	 */
+	private async buildPositionInfo(
+		tokenId: number,
+		position: any,
+		poolState?: { sqrtPriceX96: BigNumber; tick: number }
+	): Promise<PositionInfo> {
+		// Calculate the price boundaries
+		const priceLower = this.tickToPrice(
+			position.tickLower,
+			this.token0Decimals!,
+			this.token1Decimals!
+		);
+		const priceUpper = this.tickToPrice(
+			position.tickUpper,
+			this.token0Decimals!,
+			this.token1Decimals!
+		);
+
+		// Check if the position is in range
+		let sqrtPriceX96: BigNumber;
+		let fetchedTick: number;
+		if (poolState === undefined) {
+			const slot0 = await this.poolContract.slot0();
+			sqrtPriceX96 = slot0.sqrtPriceX96;
+			fetchedTick = slot0.tick;
+		} else {
+			sqrtPriceX96 = poolState.sqrtPriceX96;
+			fetchedTick = poolState.tick;
+		}
+
+		const inRange =
+			position.tickLower <= fetchedTick &&
+			fetchedTick <= position.tickUpper;
+
+		// Token amounts the liquidity would withdraw right now
+		const { amount0, amount1 } = getAmountsForLiquidity(
+			sqrtPriceX96,
+			getSqrtRatioAtTick(position.tickLower),
+			getSqrtRatioAtTick(position.tickUpper),
+			position.liquidity
+		);
+
+		// Get detailed info about this position
+		return {
+			tickLower: position.tickLower,
+			tickUpper: position.tickUpper,
+			liquidity: position.liquidity,
+			amount0,
+			amount1,
+			valueInToken1: quoteToken0InToken1(amount0, sqrtPriceX96).add(
+				amount1
+			),
+			inRange,
+			tokenId,
+			feeGrowthInside0LastX128: position.feeGrowthInside0LastX128,
+			feeGrowthInside1LastX128: position.feeGrowthInside1LastX128,
+			priceLower,
+			priceUpper,
+			isActive: !position.liquidity.isZero(),
+		};
+	}
+
 	/**
 	 * Set swap service for token conversions
 	 * @param swapService The swap service instance
@@ -651,11 +863,9 @@ export class LiquidityManager {
 	/**
 	 * Closes a position entirely and burns the NFT
 	 * @param tokenId ID of the position token
-	 * @returns Amounts of token0 and token1 received
+	 * @returns Principal, fees and the amounts left in the wallet
 	 */
-	public async closePosition(
-		tokenId: number
-	): Promise<{ amount0: BigNumber; amount1: BigNumber }> {
+	public async closePosition(tokenId: number): Promise<ClosedPosition> {
 		try {
 			// First get position info to know how much liquidity to remove
 			const position = await this.getPositionInfo(tokenId);
@@ -675,54 +885,19 @@ export class LiquidityManager {
 				amount0: BigNumber.from(0),
 				amount1: BigNumber.from(0),
 			};
+			let retainedFees = fees;
 
 			// Only collect fees if there are fees to collect
 			if (hasFees) {
 				console.log(`Position has uncollected fees, collecting...`);
-				fees = await this.collectFees(tokenId);
-
-				if (
-					this.swapService &&
-					(fees.amount0.gt(0) || fees.amount1.gt(0))
-				) {
-					console.log("Converting collected fees to stETH...");
-
-					try {
-						if (fees.amount0.gt(0)) {
-							console.log(
-								`Converting ${ethers.utils.formatUnits(
-									fees.amount0,
-									this.token0Decimals!
-								)} token0 fees to stETH`
-							);
-							await this.swapService.swap(
-								this.token0!,
-								this.WSTETH_ADDRESS,
-								fees.amount0,
-								1 // 1% slippage for fees conversion
-							);
-						}
-
-						if (fees.amount1.gt(0)) {
-							console.log(
-								`Converting ${ethers.utils.formatUnits(
-									fees.amount1,
-									this.token1Decimals!
-								)} token1 fees to stETH`
-							);
-							await this.swapService.swap(
-								this.token1!,
-								this.WSTETH_ADDRESS,
-								fees.amount1,
-								1 // 1% slippage for fees conversion
-							);
-						}
-
-						console.log("Fees successfully converted to stETH");
-					} catch (error) {
-						console.error("Error converting fees to stETH");
-					}
-				}
+				const collected = await this.collectFees(tokenId);
+
+				// Collect pays out the decreased principal along with the fees
+				fees = {
+					amount0: collected.amount0.sub(amount0),
+					amount1: collected.amount1.sub(amount1),
+				};
+				retainedFees = await this.applyFeePolicy(fees);
 			} else {
 				console.log(
 					`Position has no uncollected fees, skipping collection`
@@ -732,16 +907,23 @@ export class LiquidityManager {
 			// Burn the position NFT
 			await this.burnPosition(tokenId);
 
-			// Add up the liquidity amounts and fees
-			const totalAmount0 = amount0.add(fees.amount0);
-			const totalAmount1 = amount1.add(fees.amount1);
+			// Only the fees the policy left in the wallet are still ours to deploy
+			const totalAmount0 = amount0.add(retainedFees.amount0);
+			const totalAmount1 = amount1.add(retainedFees.amount1);
 
 			console.log(`Position closed successfully`);
 			this.logTokenAmounts("Total received:", totalAmount0, totalAmount1);
 
 			return {
+				tokenId,
 				amount0: totalAmount0,
 				amount1: totalAmount1,
+				principal0: amount0,
+				principal1: amount1,
+				fees0: fees.amount0,
+				fees1: fees.amount1,
+				retainedFees0: retainedFees.amount0,
+				retainedFees1: retainedFees.amount1,
 			};
 		} catch (error) {
 			console.error("Error closing position:", error);
@@ -749,6 +931,469 @@ export class LiquidityManager {
 		}
 	}
 
+	/**
+	 * Closes one or more positions in a single multicall transaction that
+	 * decreases all liquidity, collects everything owed and burns each NFT
+	 * @param tokenIds IDs of the position tokens to close
+	 * @returns Principal, fees and kept amounts for each position, in input order
+	 */
+	public async closePositionsBatch(
+		tokenIds: number[]
+	): Promise<ClosedPosition[]> {
+		if (tokenIds.length === 0) {
+			return [];
+		}
+
+		try {
+			const { calls } = await this.buildCloseCalls(tokenIds);
+
+			console.log(
+				`Closing positions ${tokenIds.join(", ")} in one multicall (${
+					calls.length
+				} calls)`
+			);
+
+			const tx = await this.positionManager.multicall(calls);
+			console.log(`Multicall close transaction hash: ${tx.hash}`);
+
+			// Wait for the transaction to confirm
+			const receipt = await tx.wait();
+
+			const results = this.parseClosedPositions(receipt, tokenIds);
+			for (const result of results) {
+				const retained = await this.applyFeePolicy({
+					amount0: result.fees0,
+					amount1: result.fees1,
+				});
+
+				result.retainedFees0 = retained.amount0;
+				result.retainedFees1 = retained.amount1;
+				result.amount0 = result.principal0.add(retained.amount0);
+				result.amount1 = result.principal1.add(retained.amount1);
+			}
+
+			return results;
+		} catch (error) {
+			console.error("Error closing positions in multicall:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Simulate closing positions to learn what a close would pay out now
+	 * @param tokenIds IDs of the position tokens to close
+	 * @returns Total token0 and token1 the closes would collect
+	 */
+	public async simulateClosePositions(
+		tokenIds: number[]
+	): Promise<{ amount0: BigNumber; amount1: BigNumber }> {
+		let amount0 = BigNumber.from(0);
+		let amount1 = BigNumber.from(0);
+
+		if (tokenIds.length === 0) {
+			return { amount0, amount1 };
+		}
+
+		const { calls, collectCallIndices } = await this.buildCloseCalls(
+			tokenIds
+		);
+		const returnData: string[] =
+			await this.positionManager.callStatic.multicall(calls);
+
+		for (const index of collectCallIndices) {
+			const collected = this.positionManager.interface.decodeFunctionResult(
+				"collect",
+				returnData[index]
+			);
+			amount0 = amount0.add(collected.amount0);
+			amount1 = amount1.add(collected.amount1);
+		}
+
+		return { amount0, amount1 };
+	}
+
+	/**
+	 * Close positions and mint new ones in a single multicall transaction.
+	 * Collected tokens reach the wallet before the mints pull them, and any
+	 * failing call reverts the whole bundle. The fee policy is not applied
+	 * since the mints may already have used the fees
+	 * @param tokenIds IDs of the position tokens to close, may be empty
+	 * @param mints Positions to mint, in order
+	 * @returns The closed positions and the minted positions, in input order
+	 */
+	public async closeAndMintInMulticall(
+		tokenIds: number[],
+		mints: MintRequest[]
+	): Promise<{ closed: ClosedPosition[]; minted: MintedPosition[] }> {
+		for (const mint of mints) {
+			if (mint.tickLower >= mint.tickUpper) {
+				throw new Error("Invalid tick bounds: lower must be < upper");
+			}
+		}
+
+		try {
+			const total0 = mints.reduce(
+				(sum, mint) => sum.add(mint.amount0Desired),
+				BigNumber.from(0)
+			);
+			const total1 = mints.reduce(
+				(sum, mint) => sum.add(mint.amount1Desired),
+				BigNumber.from(0)
+			);
+
+			// Approve tokens for position manager
+			await this.approveTokens(total0, total1);
+
+			// Set deadline to 10 minutes from now
+			const deadline = Math.floor(Date.now() / 1000) + 600;
+
+			const { calls } = await this.buildCloseCalls(tokenIds, deadline);
+			for (const mint of mints) {
+				calls.push(
+					this.positionManager.interface.encodeFunctionData("mint", [
+						{
+							token0: this.token0,
+							token1: this.token1,
+							fee: this.poolFee,
+							tickLower: mint.tickLower,
+							tickUpper: mint.tickUpper,
+							amount0Desired: mint.amount0Desired,
+							amount1Desired: mint.amount1Desired,
+							amount0Min: mint.amount0Min,
+							amount1Min: mint.amount1Min,
+							recipient: this.walletAddress,
+							deadline,
+						},
+					])
+				);
+			}
+
+			console.log(
+				`Closing ${tokenIds.length} and minting ${mints.length} positions in one multicall (${calls.length} calls)`
+			);
+
+			const tx = await this.positionManager.multicall(calls);
+			console.log(`Multicall rebalance transaction hash: ${tx.hash}`);
+
+			// Wait for the transaction to confirm
+			const receipt = await tx.wait();
+
+			const closed = this.parseClosedPositions(receipt, tokenIds);
+			const minted = this.parseMintedPositions(receipt);
+
+			if (minted.length !== mints.length) {
+				throw new Error(
+					`Expected ${mints.length} minted positions in multicall receipt, found ${minted.length}`
+				);
+			}
+
+			minted.forEach((position) =>
+				this.logTokenAmounts(
+					`Position ${position.tokenId} minted. Used:`,
+					position.amount0Used,
+					position.amount1Used
+				)
+			);
+
+			return { closed, minted };
+		} catch (error) {
+			console.error("Error in multicall rebalance:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Encode decreaseLiquidity (if any liquidity is left), collect and burn
+	 * calls for each position
+	 * @param tokenIds IDs of the position tokens to close
+	 * @param deadline Deadline for the decreaseLiquidity calls
+	 * @returns Encoded calls and the indices of the collect calls among them
+	 */
+	private async buildCloseCalls(
+		tokenIds: number[],
+		deadline: number = Math.floor(Date.now() / 1000) + 600
+	): Promise<{ calls: string[]; collectCallIndices: number[] }> {
+		const MAX_UINT128 = BigNumber.from(
+			"0xffffffffffffffffffffffffffffffff"
+		); // 2^128 - 1
+
+		const positions = await Promise.all(
+			tokenIds.map((tokenId) => this.positionManager.positions(tokenId))
+		);
+
+		const calls: string[] = [];
+		const collectCallIndices: number[] = [];
+
+		tokenIds.forEach((tokenId, index) => {
+			const liquidity: BigNumber = positions[index].liquidity;
+
+			if (!liquidity.isZero()) {
+				calls.push(
+					this.positionManager.interface.encodeFunctionData(
+						"decreaseLiquidity",
+						[
+							{
+								tokenId,
+								liquidity,
+								amount0Min: 0,
+								amount1Min: 0,
+								deadline,
+							},
+						]
+					)
+				);
+			}
+
+			collectCallIndices.push(calls.length);
+			calls.push(
+				this.positionManager.interface.encodeFunctionData("collect", [
+					{
+						tokenId,
+						recipient: this.walletAddress,
+						amount0Max: MAX_UINT128,
+						amount1Max: MAX_UINT128,
+					},
+				])
+			);
+
+			calls.push(
+				this.positionManager.interface.encodeFunctionData("burn", [tokenId])
+			);
+		});
+
+		return { calls, collectCallIndices };
+	}
+
+	/**
+	 * Read principal and fees for each closed position from a receipt
+	 * @param receipt Receipt of the multicall that closed the positions
+	 * @param tokenIds IDs of the closed position tokens
+	 * @returns Closed position amounts, in input order
+	 */
+	private parseClosedPositions(
+		receipt: ethers.ContractReceipt,
+		tokenIds: number[]
+	): ClosedPosition[] {
+		return tokenIds.map((tokenId) => {
+			const [decreased] = this.findEventsForToken<
+				[BigNumber, BigNumber, BigNumber]
+			>(receipt, this.EVENT_TOPICS.decreaseLiquidity, tokenId, [
+				"uint128",
+				"uint256",
+				"uint256",
+			]);
+			const [collected] = this.findEventsForToken<
+				[string, BigNumber, BigNumber]
+			>(receipt, this.EVENT_TOPICS.collect, tokenId, [
+				"address",
+				"uint256",
+				"uint256",
+			]);
+
+			if (!collected) {
+				throw new Error(
+					`Collect event for position ${tokenId} not found in multicall receipt`
+				);
+			}
+
+			// Collect pays out principal and fees together
+			const principal0 = decreased ? decreased[1] : BigNumber.from(0);
+			const principal1 = decreased ? decreased[2] : BigNumber.from(0);
+			const fees0 = collected[1].sub(principal0);
+			const fees1 = collected[2].sub(principal1);
+
+			this.logTokenAmounts(
+				`Position ${tokenId} closed. Principal:`,
+				principal0,
+				principal1
+			);
+			this.logTokenAmounts(`Position ${tokenId} fees:`, fees0, fees1);
+
+			return {
+				tokenId,
+				amount0: collected[1],
+				amount1: collected[2],
+				principal0,
+				principal1,
+				fees0,
+				fees1,
+				retainedFees0: fees0,
+				retainedFees1: fees1,
+			};
+		});
+	}
+
+	/**
+	 * Read every position minted in a transaction from its IncreaseLiquidity
+	 * events, which the position manager emits once per mint
+	 * @param receipt Transaction receipt
+	 * @returns Minted positions in mint order
+	 */
+	private parseMintedPositions(
+		receipt: ethers.ContractReceipt
+	): MintedPosition[] {
+		return (receipt.logs ?? [])
+			.filter(
+				(log: any) =>
+					log.topics[0] === this.EVENT_TOPICS.increaseLiquidity &&
+					log.address.toLowerCase() ===
+						this.positionManager.address.toLowerCase()
+			)
+			.map((log: any) => {
+				const [, amount0Used, amount1Used] =
+					ethers.utils.defaultAbiCoder.decode(
+						["uint128", "uint256", "uint256"],
+						log.data
+					);
+				return {
+					tokenId: BigNumber.from(log.topics[1]).toNumber(),
+					amount0Used,
+					amount1Used,
+				};
+			});
+	}
+
+	/**
+	 * Get the configured fee policy
+	 * @returns How fees collected on close are handled
+	 */
+	public getFeePolicyMode(): FeePolicyMode {
+		return this.feePolicy.mode;
+	}
+
+	/**
+	 * Route collected fees according to the configured fee policy
+	 * @param fees Fee amounts of token0 and token1
+	 * @returns Fee amounts still held in the wallet as pool tokens
+	 */
+	private async applyFeePolicy(fees: {
+		amount0: BigNumber;
+		amount1: BigNumber;
+	}): Promise<{ amount0: BigNumber; amount1: BigNumber }> {
+		if (fees.amount0.lte(0) && fees.amount1.lte(0)) {
+			return fees;
+		}
+
+		switch (this.feePolicy.mode) {
+			case "keep":
+			case "compound":
+				return fees;
+			case "sweep":
+				return {
+					amount0: await this.sweepFee(
+						this.token0Contract!,
+						fees.amount0,
+						this.token0Decimals!
+					),
+					amount1: await this.sweepFee(
+						this.token1Contract!,
+						fees.amount1,
+						this.token1Decimals!
+					),
+				};
+			case "convert":
+				return {
+					amount0: await this.convertFee(
+						this.token0!,
+						fees.amount0,
+						this.token0Decimals!
+					),
+					amount1: await this.convertFee(
+						this.token1!,
+						fees.amount1,
+						this.token1Decimals!
+					),
+				};
+			default:
+				throw new Error(`Unknown fee policy: ${this.feePolicy.mode}`);
+		}
+	}
+
+	/**
+	 * Transfer a fee amount to the treasury address
+	 * @param tokenContract Contract of the fee token
+	 * @param amount Fee amount
+	 * @param decimals Decimals of the fee token
+	 * @returns The amount still held in the wallet
+	 */
+	private async sweepFee(
+		tokenContract: Contract,
+		amount: BigNumber,
+		decimals: number
+	): Promise<BigNumber> {
+		if (amount.lte(0)) {
+			return BigNumber.from(0);
+		}
+
+		try {
+			console.log(
+				`Sweeping ${ethers.utils.formatUnits(amount, decimals)} of ${
+					tokenContract.address
+				} fees to ${this.feePolicy.treasuryAddress}`
+			);
+			const tx = await tokenContract.transfer(
+				this.feePolicy.treasuryAddress,
+				amount
+			);
+			await tx.wait();
+			return BigNumber.from(0);
+		} catch (error) {
+			console.error(
+				`Error sweeping fees of ${tokenContract.address}, keeping them:`,
+				error
+			);
+			return amount;
+		}
+	}
+
+	/**
+	 * Swap a fee amount into the configured convert token
+	 * @param token Address of the fee token
+	 * @param amount Fee amount
+	 * @param decimals Decimals of the fee token
+	 * @returns The amount still held in the wallet
+	 */
+	private async convertFee(
+		token: string,
+		amount: BigNumber,
+		decimals: number
+	): Promise<BigNumber> {
+		const convertToken = this.feePolicy.convertToken!;
+		if (amount.lte(0)) {
+			return BigNumber.from(0);
+		}
+		if (token.toLowerCase() === convertToken.toLowerCase()) {
+			// Already held in the target token
+			return amount;
+		}
+		if (!this.swapService) {
+			console.log("No swap service configured, keeping fees unconverted");
+			return amount;
+		}
+
+		try {
+			console.log(
+				`Converting ${ethers.utils.formatUnits(
+					amount,
+					decimals
+				)} of ${token} fees to ${convertToken}`
+			);
+			await this.swapService.swap(
+				token,
+				convertToken,
+				amount,
+				this.feePolicy.convertSlippagePercent ?? 1
+			);
+			return BigNumber.from(0);
+		} catch (error) {
+			console.error(
+				`Error converting fees of ${token}, keeping them:`,
+				error
+			);
+			return amount;
+		}
+	}
+
 	/**
 	 * Converts tick to price with decimal adjustment
 	 * @param tick The tick to convert
@@ -761,16 +1406,17 @@ export class LiquidityManager {
 		token0Decimals: number,
 		token1Decimals: number
 	): number {
-		const price =
-			Math.pow(1.0001, tick) * 10 ** (token0Decimals - token1Decimals);
-		return price;
+		return tickToPrice(tick, token0Decimals, token1Decimals);
 	}
 
 	/**
-	 * Gets all positions owned by the user
+	 * Gets all positions owned by the user on the configured pool
+	 * @param throwOnError Throw instead of returning an empty list on failure
 	 * @returns Array of position information
 	 */
-	public async getUserPositions(): Promise<PositionInfo[]> {
+	public async getUserPositions(
+		throwOnError: boolean = false
+	): Promise<PositionInfo[]> {
 		console.log(`Getting positions for user: ${this.walletAddress}`);
 
 		try {
@@ -779,9 +1425,13 @@ export class LiquidityManager {
 				this.walletAddress
 			);
 
-			// Get current tick once to avoid redundant calls
-			const [, currentTick] = await this.poolContract.slot0();
-			console.log(`Current tick: ${currentTick}`);
+			// Get current price and tick once to avoid redundant calls
+			const slot0 = await this.poolContract.slot0();
+			const poolState = {
+				sqrtPriceX96: BigNumber.from(slot0.sqrtPriceX96),
+				tick: slot0.tick,
+			};
+			console.log(`Current tick: ${poolState.tick}`);
 
 			// Get each position token ID
 			const positions: PositionInfo[] = [];
@@ -792,17 +1442,29 @@ export class LiquidityManager {
 				);
 				console.log(`Found position token ID: ${tokenId}`);
 
-				const position = await this.getPositionInfo(
-					tokenId,
-					currentTick
+				// Positions on other pools are none of the strategy's business
+				const position = await this.positionManager.positions(tokenId);
+				if (!this.isOnPool(position)) {
+					console.log(`Skipping position ${tokenId} on another pool`);
+					continue;
+				}
+
+				positions.push(
+					await this.buildPositionInfo(
+						tokenId.toNumber(),
+						position,
+						poolState
+					)
 				);
-				positions.push(position);
 			}
 
-			console.log(`Retrieved ${positions.length} positions`);
+			console.log(`Retrieved ${positions.length} positions on the pool`);
 			return positions;
 		} catch (error) {
 			console.error("Error getting user positions:", error);
+			if (throwOnError) {
+				throw new Error(`Failed to get user positions: ${error}`);
+			}
 			return [];
 		}
 	}
@@ -819,10 +1481,6 @@ export class LiquidityManager {
 		tickSpacing: number,
 		roundUp: boolean = false
 	): number {
-		if (roundUp) {
-			return Math.ceil(tick / tickSpacing) * tickSpacing;
-		} else {
-			return Math.floor(tick / tickSpacing) * tickSpacing;
-		}
+		return alignTickToSpacing(tick, tickSpacing, roundUp);
 	}
 }
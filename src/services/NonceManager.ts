@@ -0,0 +1,105 @@
+import { ethers } from "ethers";
+
+/**
+ * Hands out nonces for one wallet so transactions sent concurrently by
+ * several services or strategies never collide. Sends are serialized until
+ * broadcast only, so waiting for receipts still overlaps
+ */
+class NonceCoordinator {
+	private nextNonce: number | null = null;
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private address: string,
+		private provider: ethers.providers.Provider
+	) {}
+
+	/**
+	 * Broadcast a transaction with the next free nonce
+	 * @param send Signs and broadcasts the transaction with the given nonce
+	 * @returns The transaction response
+	 */
+	public send(
+		send: (nonce: number) => Promise<ethers.providers.TransactionResponse>
+	): Promise<ethers.providers.TransactionResponse> {
+		const sent = this.queue.then(async () => {
+			// Transactions sent outside this process also consume nonces
+			const pending = await this.provider.getTransactionCount(
+				this.address,
+				"pending"
+			);
+			const nonce = Math.max(pending, this.nextNonce ?? 0);
+
+			try {
+				const response = await send(nonce);
+				this.nextNonce = nonce + 1;
+				return response;
+			} catch (error) {
+				// Not broadcast: resync with the node on the next send
+				this.nextNonce = null;
+				throw error;
+			}
+		});
+
+		this.queue = sent.then(
+			() => undefined,
+			() => undefined
+		);
+		return sent;
+	}
+}
+
+// One coordinator per wallet address, shared by every signer of that wallet
+const coordinators = new Map<string, NonceCoordinator>();
+
+/**
+ * Wallet that takes its nonces from the coordinator shared by its address
+ */
+class CoordinatedWallet extends ethers.Wallet {
+	constructor(
+		privateKey: string,
+		provider: ethers.providers.Provider,
+		private coordinator: NonceCoordinator
+	) {
+		super(privateKey, provider);
+	}
+
+	/**
+	 * Sign and broadcast a transaction, assigning its nonce unless set
+	 * @param transaction Transaction to send
+	 * @returns The transaction response
+	 */
+	public async sendTransaction(
+		transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+	): Promise<ethers.providers.TransactionResponse> {
+		if (transaction.nonce !== undefined) {
+			return super.sendTransaction(transaction);
+		}
+
+		return this.coordinator.send((nonce) =>
+			super.sendTransaction({ ...transaction, nonce })
+		);
+	}
+}
+
+/**
+ * Build a signer whose transactions are nonce-coordinated with every other
+ * signer created for the same wallet in this process
+ * @param privateKey Wallet private key
+ * @param provider Provider to send transactions through
+ * @returns The signer
+ */
+export function createSigner(
+	privateKey: string,
+	provider: ethers.providers.Provider
+): ethers.Wallet {
+	const address = ethers.utils.computeAddress(privateKey).toLowerCase();
+
+	let coordinator = coordinators.get(address);
+	if (!coordinator) {
+		coordinator = new NonceCoordinator(address, provider);
+		coordinators.set(address, coordinator);
+	}
+
+	return new CoordinatedWallet(privateKey, provider, coordinator);
+}
@@ -0,0 +1,242 @@
+import { BigNumber, ethers } from "ethers";
+import { OracleService } from "./OracleService";
+import { AggregatorConfig, NetworkConfig } from "../utils/types";
+import { priceToSqrtPriceX96 } from "../utils/uniswapMath";
+import IUniswapV3Pool from "../contracts/abis/IUniswapV3Pool.json";
+import AggregatorV3InterfaceABI from "../contracts/abis/AggregatorV3Interface.json";
+import IERC20 from "../contracts/abis/IERC20.json";
+
+const POOL_ADDRESS = "0x6c561B446416E1A00E8E93E221854d6eA4171372";
+const FEED_ADDRESS = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70";
+const TOKEN0_ADDRESS = "0x4200000000000000000000000000000000000006";
+const TOKEN1_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const FEED_DECIMALS = 8;
+const POOL_PRICE = 2500;
+
+const DEFAULT_AGGREGATOR: AggregatorConfig = {
+	address: FEED_ADDRESS,
+	maxStalenessSeconds: 3600,
+	maxDivergencePercent: 2,
+};
+
+interface FeedRound {
+	answer: BigNumber;
+	updatedAt: number;
+	roundId?: number;
+	answeredInRound?: number;
+}
+
+/**
+ * Provider answering eth_call from canned return values, so the service
+ * reads real ethers contracts without a node
+ */
+class StubChainProvider extends ethers.providers.StaticJsonRpcProvider {
+	private stubs = new Map<
+		string,
+		{ iface: ethers.utils.Interface; results: Record<string, unknown[]> }
+	>();
+
+	constructor() {
+		// Static network, so the provider never tries to reach a node
+		super("http://127.0.0.1:8545", { chainId: 8453, name: "base" });
+	}
+
+	/**
+	 * Register the values returned by a contract's view functions
+	 * @param address Contract address
+	 * @param abi Contract ABI
+	 * @param results Return values keyed by function name
+	 */
+	public stub(
+		address: string,
+		abi: ConstructorParameters<typeof ethers.utils.Interface>[0],
+		results: Record<string, unknown[]>
+	): void {
+		this.stubs.set(address.toLowerCase(), {
+			iface: new ethers.utils.Interface(abi),
+			results,
+		});
+	}
+
+	public async call(
+		transaction: Parameters<ethers.providers.Provider["call"]>[0]
+	): Promise<string> {
+		const { to, data } = await ethers.utils.resolveProperties(transaction);
+		const stub = this.stubs.get(String(to).toLowerCase());
+		if (!stub || !data) {
+			throw new Error(`No stubbed contract at ${to}`);
+		}
+
+		const { name } = stub.iface.parseTransaction({
+			data: ethers.utils.hexlify(data),
+		});
+		if (!(name in stub.results)) {
+			throw new Error(`No stubbed result for ${name} at ${to}`);
+		}
+		return stub.iface.encodeFunctionResult(name, stub.results[name]);
+	}
+}
+
+function now(): number {
+	return Math.floor(Date.now() / 1000);
+}
+
+function feedAnswer(price: number): BigNumber {
+	return ethers.utils.parseUnits(price.toString(), FEED_DECIMALS);
+}
+
+/**
+ * Build an initialized oracle service reading a stubbed pool and feed
+ * @param round Latest round returned by the feed
+ * @param aggregator Feed config, or null for no secondary feed
+ * @returns The service
+ */
+async function createService(
+	round: FeedRound,
+	aggregator: AggregatorConfig | null = DEFAULT_AGGREGATOR
+): Promise<OracleService> {
+	const config: NetworkConfig = {
+		network: "base",
+		rpcUrl: "http://127.0.0.1:8545",
+		chainId: 8453,
+		uniswap: {
+			swapRouter: ethers.constants.AddressZero,
+			positionManager: ethers.constants.AddressZero,
+			factory: ethers.constants.AddressZero,
+			poolAddress: POOL_ADDRESS,
+		},
+		strategy: { checkInterval: 60, widthPercent: 10 },
+		oracle: {
+			priceSource: "spot",
+			twapWindowSeconds: 300,
+			aggregator: aggregator ?? undefined,
+		},
+		database: { mongoUri: "", dbName: "" },
+	};
+
+	// WETH/USDC style pool: 18 and 6 decimals
+	const provider = new StubChainProvider();
+	provider.stub(TOKEN0_ADDRESS, IERC20, { decimals: [18] });
+	provider.stub(TOKEN1_ADDRESS, IERC20, { decimals: [6] });
+	provider.stub(POOL_ADDRESS, IUniswapV3Pool, {
+		fee: [500],
+		tickSpacing: [10],
+		slot0: [priceToSqrtPriceX96(POOL_PRICE, 18, 6), -198079, 0, 1, 1, 0, true],
+	});
+	provider.stub(FEED_ADDRESS, AggregatorV3InterfaceABI, {
+		decimals: [FEED_DECIMALS],
+		description: ["ETH / USD"],
+		latestRoundData: [
+			round.roundId ?? 10,
+			round.answer,
+			round.updatedAt,
+			round.updatedAt,
+			round.answeredInRound ?? round.roundId ?? 10,
+		],
+	});
+
+	const service = new OracleService(config, provider);
+	await service.initialize(
+		new ethers.Contract(TOKEN0_ADDRESS, IERC20, provider),
+		new ethers.Contract(TOKEN1_ADDRESS, IERC20, provider)
+	);
+
+	return service;
+}
+
+describe("OracleService.checkAggregatorDivergence", () => {
+	beforeAll(() => {
+		jest.spyOn(console, "log").mockImplementation(() => undefined);
+	});
+
+	afterAll(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("returns null when no secondary feed is configured", async () => {
+		const service = await createService(
+			{ answer: feedAnswer(POOL_PRICE), updatedAt: now() },
+			null
+		);
+
+		expect(await service.checkAggregatorDivergence()).toBeNull();
+	});
+
+	it("passes a fresh feed within tolerance", async () => {
+		const service = await createService({
+			answer: feedAnswer(2510),
+			updatedAt: now() - 60,
+		});
+
+		const divergence = await service.checkAggregatorDivergence();
+
+		expect(divergence).not.toBeNull();
+		expect(divergence!.poolPrice).toBeCloseTo(POOL_PRICE, 4);
+		expect(divergence!.feedPrice).toBe(2510);
+		expect(divergence!.divergencePercent).toBeCloseTo((10 / 2510) * 100, 4);
+		expect(divergence!.stale).toBe(false);
+		expect(divergence!.exceeded).toBe(false);
+	});
+
+	it("flags a feed diverging beyond the threshold", async () => {
+		const service = await createService({
+			answer: feedAnswer(2600),
+			updatedAt: now() - 60,
+		});
+
+		const divergence = await service.checkAggregatorDivergence();
+
+		expect(divergence!.divergencePercent).toBeGreaterThan(2);
+		expect(divergence!.stale).toBe(false);
+		expect(divergence!.exceeded).toBe(true);
+	});
+
+	it("flags a stale feed even when the prices agree", async () => {
+		const service = await createService({
+			answer: feedAnswer(POOL_PRICE),
+			updatedAt: now() - 7200,
+		});
+
+		const divergence = await service.checkAggregatorDivergence();
+
+		expect(divergence!.divergencePercent).toBeLessThan(0.001);
+		expect(divergence!.stale).toBe(true);
+		expect(divergence!.exceeded).toBe(true);
+	});
+
+	it("inverts a feed quoting token0 per token1", async () => {
+		const service = await createService(
+			{ answer: feedAnswer(0.0004), updatedAt: now() - 60 },
+			{ ...DEFAULT_AGGREGATOR, invert: true }
+		);
+
+		const divergence = await service.checkAggregatorDivergence();
+
+		expect(divergence!.feedPrice).toBeCloseTo(POOL_PRICE, 6);
+		expect(divergence!.exceeded).toBe(false);
+	});
+
+	it("rejects a non-positive answer", async () => {
+		const service = await createService({
+			answer: BigNumber.from(0),
+			updatedAt: now(),
+		});
+
+		await expect(service.checkAggregatorDivergence()).rejects.toThrow(
+			"invalid answer"
+		);
+	});
+
+	it("rejects a round answered in an earlier round", async () => {
+		const service = await createService({
+			answer: feedAnswer(POOL_PRICE),
+			updatedAt: now(),
+			roundId: 12,
+			answeredInRound: 11,
+		});
+
+		await expect(service.checkAggregatorDivergence()).rejects.toThrow(
+			"stale round"
+		);
+	});
+});
@@ -2,8 +2,37 @@ import { Contract, ethers, BigNumber } from "ethers";
 import {
 	PriceData,
 	NetworkConfig,
+	PriceSource,
+	SpotTwapDeviation,
+	CardinalityReport,
+	PriceFeedDivergence,
 } from "../utils/types";
 import IUniswapV3Pool from "../contracts/abis/IUniswapV3Pool.json";
+import AggregatorV3InterfaceABI from "../contracts/abis/AggregatorV3Interface.json";
+import { sqrtPriceX96ToPrice, tickToPrice } from "../utils/uniswapMath";
+import { OracleCache } from "../utils/oracleCache";
+
+// Decoded results of the contract reads served through the oracle cache
+type Slot0Result = [
+	sqrtPriceX96: BigNumber,
+	tick: number,
+	observationIndex: number,
+	observationCardinality: number,
+	observationCardinalityNext: number,
+	feeProtocol: number,
+	unlocked: boolean
+];
+type ObserveResult = [
+	tickCumulatives: BigNumber[],
+	secondsPerLiquidityCumulativeX128s: BigNumber[]
+];
+type RoundDataResult = [
+	roundId: BigNumber,
+	answer: BigNumber,
+	startedAt: BigNumber,
+	updatedAt: BigNumber,
+	answeredInRound: BigNumber
+];
 
 /**
  * Oracle Service that provides on-chain (Uniswap) price data for the strategy
@@ -17,9 +46,40 @@ export class OracleService {
 	private token1Decimals: number | null = null;
 	private poolFee: number | null = null;
 	private tickSpacing: number | null = null;
+	private priceSource: PriceSource;
+	private twapWindowSeconds: number;
+	private maxSpotTwapDeviationTicks: number | null;
+	// False while a freshly grown observation buffer cannot cover the window
+	private observationsReady: boolean = true;
+	private aggregatorContract: Contract | null = null;
+	private aggregatorDecimals: number | null = null;
 
-	constructor(private config: NetworkConfig, provider: ethers.providers.JsonRpcProvider) {
+	constructor(
+		private config: NetworkConfig,
+		provider: ethers.providers.JsonRpcProvider,
+		private cache: OracleCache | null = null
+	) {
 		this.provider = provider;
+		this.priceSource = config.oracle?.priceSource ?? "spot";
+		this.twapWindowSeconds = config.oracle?.twapWindowSeconds ?? 300;
+		this.maxSpotTwapDeviationTicks =
+			config.oracle?.maxSpotTwapDeviationTicks ?? null;
+
+		if (this.priceSource === "twap" && this.twapWindowSeconds <= 0) {
+			throw new Error(
+				`Invalid oracle config: twapWindowSeconds must be positive, got ${this.twapWindowSeconds}`
+			);
+		}
+
+		if (
+			this.maxSpotTwapDeviationTicks !== null &&
+			this.maxSpotTwapDeviationTicks < 0
+		) {
+			throw new Error(
+				`Invalid oracle config: maxSpotTwapDeviationTicks must not be negative, got ${this.maxSpotTwapDeviationTicks}`
+			);
+		}
+
 		this.poolContract = new ethers.Contract(
 			config.uniswap.poolAddress,
 			IUniswapV3Pool,
@@ -36,10 +96,12 @@ export class OracleService {
 	 * Initialize the oracle service with token contracts
 	 * @param token0Contract The contract for the first token in the pool
 	 * @param token1Contract The contract for the second token in the pool
+	 * @param signer Wallet allowed to grow the pool's observation buffer
 	 */
 	public async initialize(
 		token0Contract: Contract,
-		token1Contract: Contract
+		token1Contract: Contract,
+		signer?: ethers.Signer
 	): Promise<void> {
 		this.token0 = token0Contract.address;
 		this.token1 = token1Contract.address;
@@ -72,31 +134,300 @@ export class OracleService {
       Tick spacing: ${this.tickSpacing}
       --------------------------------
     `);
+
+		if (this.usesObservations()) {
+			await this.assertObservationsAvailable(
+				await this.ensureObservationCardinality(signer)
+			);
+		}
+
+		if (this.config.oracle?.aggregator) {
+			await this.initializeAggregator(this.config.oracle.aggregator.address);
+		}
+	}
+
+	/**
+	 * Connect to the secondary AggregatorV3Interface price feed
+	 * @param address Address of the feed
+	 */
+	private async initializeAggregator(address: string): Promise<void> {
+		this.aggregatorContract = new ethers.Contract(
+			address,
+			AggregatorV3InterfaceABI,
+			this.provider
+		);
+
+		const [decimals, description] = await Promise.all([
+			this.aggregatorContract.decimals(),
+			this.aggregatorContract.description(),
+		]);
+		this.aggregatorDecimals = Number(decimals);
+
+		console.log(
+			`Secondary price feed: ${description} at ${address} (${this.aggregatorDecimals} decimals)`
+		);
+	}
+
+	/**
+	 * Whether the configured price source or guard reads the pool oracle
+	 * @returns True if observe() will be called
+	 */
+	private usesObservations(): boolean {
+		return (
+			this.priceSource === "twap" || this.maxSpotTwapDeviationTicks !== null
+		);
+	}
+
+	/**
+	 * Number of observation slots needed to cover the TWAP window, assuming
+	 * at worst one observation is written per block
+	 * @returns The required observation cardinality
+	 */
+	public getRequiredCardinality(): number {
+		const blockTimeSeconds =
+			this.config.oracle?.cardinality?.blockTimeSeconds ?? 2;
+		return Math.ceil(this.twapWindowSeconds / blockTimeSeconds) + 1;
+	}
+
+	/**
+	 * Compare the pool's observation cardinality with what the TWAP window
+	 * needs and, if allowed, grow it with increaseObservationCardinalityNext
+	 * @param signer Wallet used to send the increase transaction
+	 * @returns Report of the current, next and required cardinality
+	 */
+	public async ensureObservationCardinality(
+		signer?: ethers.Signer
+	): Promise<CardinalityReport> {
+		const cardinalityConfig = this.config.oracle?.cardinality;
+		const slot0 = await this.poolContract.slot0();
+		const current = Number(slot0.observationCardinality);
+		const next = Number(slot0.observationCardinalityNext);
+		const required = this.getRequiredCardinality();
+
+		console.log(
+			`Observation cardinality: current ${current}, next ${next}, required ${required} for a ${this.twapWindowSeconds}s window`
+		);
+
+		if (next >= required) {
+			if (current < required) {
+				console.log(
+					`Observation buffer is still growing towards ${next}, TWAP reads may fail until it fills`
+				);
+			}
+			return { current, next, required, action: "sufficient" };
+		}
+
+		console.log(
+			`Pool has too few observation slots (${next} < ${required}), TWAP over ${this.twapWindowSeconds}s will fail`
+		);
+
+		if (!cardinalityConfig?.autoIncrease || !signer) {
+			console.log(
+				"Automatic cardinality increase disabled, call increaseObservationCardinalityNext manually"
+			);
+			return { current, next, required, action: "skipped" };
+		}
+
+		const poolWithSigner = this.poolContract.connect(signer);
+		const [gasEstimate, gasPrice] = await Promise.all([
+			poolWithSigner.estimateGas.increaseObservationCardinalityNext(required),
+			this.provider.getGasPrice(),
+		]);
+		const gasCostEth = parseFloat(
+			ethers.utils.formatEther(gasEstimate.mul(gasPrice))
+		);
+
+		console.log(
+			`Increasing cardinality to ${required} needs ~${gasEstimate.toString()} gas (~${gasCostEth} ETH, budget ${cardinalityConfig.maxGasCostEth} ETH)`
+		);
+
+		if (cardinalityConfig.dryRun) {
+			console.log("Dry run: not sending increaseObservationCardinalityNext");
+			return {
+				current,
+				next,
+				required,
+				gasEstimate,
+				gasCostEth,
+				action: "dry-run",
+			};
+		}
+
+		if (gasCostEth > cardinalityConfig.maxGasCostEth) {
+			console.log(
+				`Cardinality increase exceeds the gas budget, not sending the transaction`
+			);
+			return {
+				current,
+				next,
+				required,
+				gasEstimate,
+				gasCostEth,
+				action: "over-budget",
+			};
+		}
+
+		try {
+			const tx = await poolWithSigner.increaseObservationCardinalityNext(
+				required,
+				{ gasLimit: gasEstimate.mul(120).div(100) }
+			);
+			const receipt = await tx.wait();
+			console.log(
+				`Observation cardinality next raised to ${required} in tx: ${receipt.transactionHash}`
+			);
+		} catch (error) {
+			throw new Error(`Error increasing observation cardinality: ${error}`);
+		}
+
+		return {
+			current,
+			next: required,
+			required,
+			gasEstimate,
+			gasCostEth,
+			action: "increased",
+		};
+	}
+
+	/**
+	 * Fail fast when the pool oracle can never serve the TWAP window, instead
+	 * of letting every later observe() call revert. A buffer that is large
+	 * enough but still filling, e.g. right after an increase, only defers
+	 * TWAP reads until it covers the window
+	 * @param report Outcome of the cardinality check
+	 * @throws Error if the buffer is too small
+	 */
+	private async assertObservationsAvailable(
+		report: CardinalityReport
+	): Promise<void> {
+		if (report.action !== "sufficient" && report.action !== "increased") {
+			throw new Error(
+				`Pool observation cardinality ${report.next} is below the ${report.required} needed for a ${this.twapWindowSeconds}s TWAP (${report.action}), grow it or use the spot price source without the spot/TWAP guard`
+			);
+		}
+
+		this.observationsReady = false;
+		if (!(await this.observationsAvailable())) {
+			console.log(
+				`Warning: observation buffer does not cover ${this.twapWindowSeconds}s yet, using the spot price without the spot/TWAP guard until it does`
+			);
+		}
+	}
+
+	/**
+	 * Whether observe() can serve the TWAP window. Once a probe succeeds the
+	 * buffer stays filled, so later calls do not read the chain
+	 * @returns True if TWAP reads will succeed
+	 */
+	private async observationsAvailable(): Promise<boolean> {
+		if (this.observationsReady) {
+			return true;
+		}
+
+		try {
+			await this.fetchTwapTick(this.twapWindowSeconds);
+		} catch (error) {
+			return false;
+		}
+
+		console.log(
+			`Observation buffer now covers ${this.twapWindowSeconds}s, TWAP reads enabled`
+		);
+		this.observationsReady = true;
+		return true;
+	}
+
+	/**
+	 * Read through the oracle cache when one is configured
+	 * @param contract Contract being read
+	 * @param method Method and arguments identifying the read
+	 * @param load Performs the read
+	 * @returns The read result
+	 */
+	private cachedRead<T>(
+		contract: Contract,
+		method: string,
+		load: () => Promise<T>
+	): Promise<T> {
+		if (!this.cache) {
+			return load();
+		}
+		return this.cache.get(
+			`${contract.address.toLowerCase()}:${method}`,
+			load
+		);
 	}
 
 	/**
 	 * Fetches the price from Uniswap V3 pool
-	 * @returns The latest price and current tick from Uniswap
+	 * @returns The latest price, sqrt price and current tick from Uniswap
 	 */
-	public async fetchUniswapPrice(): Promise<{ price: number; tick: number }> {
+	public async fetchUniswapPrice(): Promise<{
+		price: number;
+		tick: number;
+		sqrtPriceX96: BigNumber;
+	}> {
 		try {
-			const [, tick] = await this.poolContract.slot0();
+			const [sqrtPriceX96, tick] = await this.cachedRead<Slot0Result>(
+				this.poolContract,
+				"slot0",
+				() => this.poolContract.slot0()
+			);
 			console.log(`Current tick: ${tick}`);
 
-			const decimalsDiff = this.token0Decimals! - this.token1Decimals!;
-			const tickBasedPrice = Math.pow(1.0001, Number(tick)) * Math.pow(10, decimalsDiff);
+			const price = sqrtPriceX96ToPrice(
+				sqrtPriceX96,
+				this.token0Decimals!,
+				this.token1Decimals!
+			);
 			
-			console.log(`Price from tick: ${tickBasedPrice}`);
+			console.log(`Price from sqrtPriceX96: ${price}`);
 			
-			return { price: tickBasedPrice, tick };
+			return { price, tick, sqrtPriceX96 };
 		} catch (error) {
 			throw new Error(`Error fetching Uniswap price: ${error}`);
 		}
 	}
 
+	/**
+	 * Fetches the arithmetic-mean tick over a window from the pool oracle
+	 * @param windowSeconds Length of the window ending now
+	 * @returns The time-weighted average tick, rounded towards negative infinity
+	 */
+	public async fetchTwapTick(windowSeconds: number): Promise<number> {
+		try {
+			const [tickCumulatives] = await this.cachedRead<ObserveResult>(
+				this.poolContract,
+				`observe:${windowSeconds}`,
+				() => this.poolContract.observe([windowSeconds, 0])
+			);
+
+			const tickCumulativesDelta = tickCumulatives[1].sub(
+				tickCumulatives[0]
+			);
+
+			// Same rounding as the periphery OracleLibrary.consult
+			let meanTick = tickCumulativesDelta.div(windowSeconds);
+			if (
+				tickCumulativesDelta.isNegative() &&
+				!meanTick.mul(windowSeconds).eq(tickCumulativesDelta)
+			) {
+				meanTick = meanTick.sub(1);
+			}
+
+			return meanTick.toNumber();
+		} catch (error) {
+			throw new Error(
+				`Error fetching ${windowSeconds}s TWAP from pool oracle: ${error}`
+			);
+		}
+	}
+
 	/**
 	 * Gets the oracle price from Uniswap
-	 * @returns The oracle price data with current tick
+	 * @returns The oracle price data with the spot tick and, in TWAP mode, the
+	 * time-weighted average tick
 	 */
 	public async getOraclePrice(): Promise<PriceData> {
 		try {
@@ -109,6 +440,20 @@ export class OracleService {
 				tick: tick,
 			};
 
+			if (this.priceSource === "twap" && (await this.observationsAvailable())) {
+				const twapTick = await this.fetchTwapTick(this.twapWindowSeconds);
+				priceData.twapTick = twapTick;
+				priceData.twapPrice = tickToPrice(
+					twapTick,
+					this.token0Decimals!,
+					this.token1Decimals!
+				);
+
+				console.log(
+					`TWAP tick (${this.twapWindowSeconds}s): ${twapTick}, TWAP price: ${priceData.twapPrice}`
+				);
+			}
+
       return priceData;
 		} catch (error) {
 			console.error("Error getting oracle price");
@@ -116,6 +461,130 @@ export class OracleService {
 		}
 	}
 
+	/**
+	 * Compare the spot tick against the TWAP tick to detect a pool price that
+	 * has been pushed away from its recent average (e.g. by a sandwich)
+	 * @returns The deviation, or null if the manipulation guard is disabled
+	 * or the observation buffer does not cover the window yet
+	 */
+	public async checkSpotTwapDeviation(): Promise<SpotTwapDeviation | null> {
+		if (this.maxSpotTwapDeviationTicks === null) {
+			return null;
+		}
+		if (!(await this.observationsAvailable())) {
+			console.log("Spot/TWAP guard waits for the observation buffer to fill");
+			return null;
+		}
+
+		const [{ tick: spotTick }, twapTick] = await Promise.all([
+			this.fetchUniswapPrice(),
+			this.fetchTwapTick(this.twapWindowSeconds),
+		]);
+
+		const deviationTicks = Math.abs(spotTick - twapTick);
+		const exceeded = deviationTicks > this.maxSpotTwapDeviationTicks;
+
+		console.log(
+			`Spot/TWAP deviation: ${deviationTicks} ticks (spot ${spotTick}, TWAP ${twapTick}, max ${this.maxSpotTwapDeviationTicks})`
+		);
+
+		return {
+			spotTick,
+			twapTick,
+			deviationTicks,
+			maxDeviationTicks: this.maxSpotTwapDeviationTicks,
+			exceeded,
+		};
+	}
+
+	/**
+	 * Fetches the latest answer from the secondary price feed
+	 * @returns The feed price (token1 per token0) and when it was last updated
+	 */
+	public async fetchAggregatorPrice(): Promise<{
+		price: number;
+		updatedAt: number;
+	}> {
+		if (!this.aggregatorContract || this.aggregatorDecimals === null) {
+			throw new Error("Secondary price feed is not configured");
+		}
+
+		try {
+			const aggregator = this.aggregatorContract;
+			const [roundId, answer, , updatedAt, answeredInRound] =
+				await this.cachedRead<RoundDataResult>(aggregator, "latestRoundData", () =>
+					aggregator.latestRoundData()
+				);
+
+			if (answer.lte(0)) {
+				throw new Error(`invalid answer ${answer.toString()}`);
+			}
+			if (answeredInRound.lt(roundId)) {
+				throw new Error(
+					`round ${roundId.toString()} answered in stale round ${answeredInRound.toString()}`
+				);
+			}
+
+			const rawPrice = parseFloat(
+				ethers.utils.formatUnits(answer, this.aggregatorDecimals)
+			);
+			const price = this.config.oracle?.aggregator?.invert
+				? 1 / rawPrice
+				: rawPrice;
+
+			return { price, updatedAt: updatedAt.toNumber() };
+		} catch (error) {
+			throw new Error(`Error fetching secondary feed price: ${error}`);
+		}
+	}
+
+	/**
+	 * Compare the pool spot price against the secondary price feed
+	 * @returns The divergence, or null if no secondary feed is configured
+	 */
+	public async checkAggregatorDivergence(): Promise<PriceFeedDivergence | null> {
+		const aggregatorConfig = this.config.oracle?.aggregator;
+		if (!aggregatorConfig || !this.aggregatorContract) {
+			return null;
+		}
+
+		const [{ price: poolPrice }, { price: feedPrice, updatedAt }] =
+			await Promise.all([
+				this.fetchUniswapPrice(),
+				this.fetchAggregatorPrice(),
+			]);
+
+		const age = Math.floor(Date.now() / 1000) - updatedAt;
+		const stale = age > aggregatorConfig.maxStalenessSeconds;
+		const divergencePercent =
+			(Math.abs(poolPrice - feedPrice) / feedPrice) * 100;
+
+		console.log(
+			`Pool/feed divergence: ${divergencePercent.toFixed(
+				3
+			)}% (pool ${poolPrice}, feed ${feedPrice}, updated ${age}s ago)`
+		);
+
+		return {
+			poolPrice,
+			feedPrice,
+			feedUpdatedAt: updatedAt,
+			divergencePercent,
+			maxDivergencePercent: aggregatorConfig.maxDivergencePercent,
+			stale,
+			exceeded:
+				stale || divergencePercent > aggregatorConfig.maxDivergencePercent,
+		};
+	}
+
+	/**
+	 * Returns which price the strategy should use for rebalance decisions
+	 * @returns The configured price source
+	 */
+	public getPriceSource(): PriceSource {
+		return this.priceSource;
+	}
+
 	/**
 	 * Returns the current tick spacing value used for this pool
 	 * @returns The tick spacing value
@@ -0,0 +1,190 @@
+import { Contract, ethers } from "ethers";
+import { EventEmitter } from "events";
+import { NetworkConfig, PriceData } from "../utils/types";
+import IUniswapV3Pool from "../contracts/abis/IUniswapV3Pool.json";
+import { OracleService } from "./OracleService";
+
+/**
+ * Events emitted by PriceStreamService
+ */
+export enum PriceStreamEvent {
+	PRICE = "price",
+	ERROR = "error",
+}
+
+/**
+ * Block-driven price stream over a WebSocket provider. Listens to new blocks
+ * and the pool's Swap events and emits one oracle price per block in which
+ * the tick actually moved, so the strategy and the tracker share one feed
+ */
+export class PriceStreamService extends EventEmitter {
+	private wsProvider: ethers.providers.WebSocketProvider | null = null;
+	private poolContract: Contract | null = null;
+	private lastEmittedTick: number | null = null;
+	private latestSwapTick: number | null = null;
+	private isProcessingBlock: boolean = false;
+	private isRunning: boolean = false;
+	private reconnectTimer: NodeJS.Timeout | null = null;
+	private reconnectDelayMs: number = 5000;
+
+	constructor(
+		private config: NetworkConfig,
+		private oracleService: OracleService
+	) {
+		super();
+
+		if (!config.wsUrl) {
+			throw new Error("Block-driven monitoring requires a wsUrl in the config");
+		}
+	}
+
+	/**
+	 * Connect to the WebSocket endpoint and emit the current price once
+	 */
+	public async start(): Promise<void> {
+		if (this.isRunning) {
+			console.log("Price stream already running");
+			return;
+		}
+
+		this.isRunning = true;
+		this.connect();
+
+		// Seed subscribers with the current price so they don't wait for a swap
+		await this.emitPrice();
+	}
+
+	/**
+	 * Disconnect from the WebSocket endpoint and stop emitting prices
+	 */
+	public async stop(): Promise<void> {
+		this.isRunning = false;
+
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+
+		await this.disconnect();
+		console.log("Price stream stopped");
+	}
+
+	/**
+	 * Subscribe to blocks and Swap events on a fresh WebSocket provider
+	 */
+	private connect(): void {
+		this.wsProvider = new ethers.providers.WebSocketProvider(
+			this.config.wsUrl!,
+			this.config.chainId
+		);
+		this.poolContract = new ethers.Contract(
+			this.config.uniswap.poolAddress,
+			IUniswapV3Pool,
+			this.wsProvider
+		);
+
+		this.poolContract.on("Swap", (...args: any[]) => {
+			// sender, recipient, amount0, amount1, sqrtPriceX96, liquidity, tick, event
+			const tick = Number(args[6]);
+			this.latestSwapTick = tick;
+		});
+
+		this.wsProvider.on("block", (blockNumber: number) => {
+			this.handleBlock(blockNumber).catch((error) =>
+				this.emit(PriceStreamEvent.ERROR, error)
+			);
+		});
+
+		// ethers v5 does not reconnect dropped sockets on its own
+		this.wsProvider._websocket.on("close", (code: number) => {
+			console.log(`Price stream WebSocket closed (code ${code})`);
+			this.scheduleReconnect();
+		});
+
+		console.log(`Price stream connected to ${this.config.wsUrl}`);
+	}
+
+	/**
+	 * Remove listeners and close the WebSocket
+	 */
+	private async disconnect(): Promise<void> {
+		if (this.poolContract) {
+			this.poolContract.removeAllListeners();
+			this.poolContract = null;
+		}
+
+		if (this.wsProvider) {
+			const provider = this.wsProvider;
+			this.wsProvider = null;
+			provider.removeAllListeners();
+			provider._websocket.removeAllListeners("close");
+
+			try {
+				await provider.destroy();
+			} catch (error) {
+				console.error("Error closing price stream WebSocket:", error);
+			}
+		}
+	}
+
+	/**
+	 * Reconnect after the socket drops, emitting a fresh price afterwards
+	 */
+	private scheduleReconnect(): void {
+		if (!this.isRunning || this.reconnectTimer) {
+			return;
+		}
+
+		console.log(
+			`Reconnecting price stream in ${this.reconnectDelayMs / 1000} seconds`
+		);
+
+		this.reconnectTimer = setTimeout(async () => {
+			this.reconnectTimer = null;
+
+			try {
+				await this.disconnect();
+				this.connect();
+
+				// Swaps may have been missed while disconnected
+				await this.emitPrice();
+			} catch (error) {
+				this.emit(PriceStreamEvent.ERROR, error);
+				this.scheduleReconnect();
+			}
+		}, this.reconnectDelayMs);
+	}
+
+	/**
+	 * Emit a price for the block if a swap moved the tick since the last one
+	 * @param blockNumber The new block number
+	 */
+	private async handleBlock(blockNumber: number): Promise<void> {
+		if (
+			this.isProcessingBlock ||
+			this.latestSwapTick === null ||
+			this.latestSwapTick === this.lastEmittedTick
+		) {
+			return;
+		}
+
+		this.isProcessingBlock = true;
+		try {
+			console.log(
+				`Block ${blockNumber}: tick moved ${this.lastEmittedTick} -> ${this.latestSwapTick}`
+			);
+			await this.emitPrice();
+		} finally {
+			this.isProcessingBlock = false;
+		}
+	}
+
+	/**
+	 * Read the oracle price and emit it to subscribers
+	 */
+	private async emitPrice(): Promise<void> {
+		const priceData: PriceData = await this.oracleService.getOraclePrice();
+		this.lastEmittedTick = priceData.tick;
+		this.emit(PriceStreamEvent.PRICE, priceData);
+	}
+}
@@ -0,0 +1,241 @@
+import { BigNumber, Contract } from "ethers";
+import {
+	CloseBalances,
+	Discrepancy,
+	DiscrepancyKind,
+	PositionInfo,
+	ReconciliationConfig,
+	ReconciliationReport,
+} from "../utils/types";
+import { LiquidityManager } from "./LiquidityManager";
+import { DataTrackingService } from "./DataTrackingService";
+
+/**
+ * What the strategy believes it holds
+ */
+export interface ReconciliationExpectation {
+	legTokenIds: number[]; // Legs the strategy manages
+	ignoredTokenIds: number[]; // Positions left alone by the unmanaged position policy
+	idleBalances: CloseBalances; // Wallet balances the strategy accounts for
+	allowWalletSurplus: boolean; // Extra wallet funds are expected, e.g. kept fees
+}
+
+/**
+ * Compares the positions and balances the strategy and the database track
+ * against what the wallet actually owns on chain, and records every mismatch
+ */
+export class ReconciliationService {
+	public readonly intervalSeconds: number;
+	public readonly onStartup: boolean;
+	private balanceDriftTolerancePercent: number;
+	private token0Contract: Contract | null = null;
+	private token1Contract: Contract | null = null;
+	private walletAddress: string | null = null;
+
+	constructor(
+		config: ReconciliationConfig,
+		private liquidityManager: LiquidityManager,
+		private dataTrackingService: DataTrackingService
+	) {
+		this.intervalSeconds = config.intervalSeconds;
+		this.onStartup = config.onStartup ?? true;
+		this.balanceDriftTolerancePercent =
+			config.balanceDriftTolerancePercent ?? 1;
+
+		if (this.intervalSeconds <= 0) {
+			throw new Error(
+				`Invalid reconciliation config: intervalSeconds must be positive, got ${this.intervalSeconds}`
+			);
+		}
+
+		if (this.balanceDriftTolerancePercent < 0) {
+			throw new Error(
+				`Invalid reconciliation config: balanceDriftTolerancePercent must not be negative, got ${this.balanceDriftTolerancePercent}`
+			);
+		}
+	}
+
+	/**
+	 * Initialize the service with the pool's token contracts
+	 * @param token0Contract The contract for the first token in the pool
+	 * @param token1Contract The contract for the second token in the pool
+	 * @param walletAddress Wallet the strategy runs from
+	 */
+	public initialize(
+		token0Contract: Contract,
+		token1Contract: Contract,
+		walletAddress: string
+	): void {
+		this.token0Contract = token0Contract;
+		this.token1Contract = token1Contract;
+		this.walletAddress = walletAddress;
+	}
+
+	/**
+	 * Compare the chain against the database and the strategy's own view,
+	 * then record the discrepancies found
+	 * @param expected What the strategy believes it holds
+	 * @returns The reconciliation report
+	 */
+	public async reconcile(
+		expected: ReconciliationExpectation
+	): Promise<ReconciliationReport> {
+		if (!this.token0Contract || !this.token1Contract || !this.walletAddress) {
+			throw new Error("Reconciliation service is not initialized");
+		}
+
+		console.log("Reconciling on-chain state with tracked records...");
+
+		const onChain = (await this.liquidityManager.getUserPositions(true)).filter(
+			(position) =>
+				!position.liquidity.isZero() &&
+				!expected.ignoredTokenIds.includes(position.tokenId)
+		);
+		const tracked = await this.dataTrackingService.loadActivePositions();
+
+		const discrepancies: Discrepancy[] = [
+			...this.comparePositions(onChain, tracked, expected.legTokenIds),
+			...(await this.compareBalances(expected)),
+		];
+
+		const report: ReconciliationReport = {
+			timestamp: Math.floor(Date.now() / 1000),
+			onChainPositionCount: onChain.length,
+			trackedPositionCount: tracked.length,
+			discrepancies,
+		};
+
+		console.log(
+			`Reconciliation: ${onChain.length} live positions on chain, ${tracked.length} tracked as active, ${discrepancies.length} discrepancies`
+		);
+		for (const discrepancy of discrepancies) {
+			console.log(`  ${discrepancy.kind}: ${discrepancy.details}`);
+		}
+
+		await this.dataTrackingService.recordReconciliation(report);
+		return report;
+	}
+
+	/**
+	 * Find orphan, phantom and liquidity mismatched positions
+	 * @param onChain Live positions owned by the wallet
+	 * @param tracked Positions the database tracks as active
+	 * @param legTokenIds Legs the strategy manages
+	 * @returns Position discrepancies
+	 */
+	private comparePositions(
+		onChain: PositionInfo[],
+		tracked: PositionInfo[],
+		legTokenIds: number[]
+	): Discrepancy[] {
+		const discrepancies: Discrepancy[] = [];
+		const trackedById = new Map(
+			tracked.map((position) => [position.tokenId, position])
+		);
+		const onChainIds = new Set(onChain.map((position) => position.tokenId));
+
+		for (const position of onChain) {
+			const record = trackedById.get(position.tokenId);
+			const isLeg = legTokenIds.includes(position.tokenId);
+
+			if (!record || !isLeg) {
+				discrepancies.push({
+					kind: DiscrepancyKind.ORPHAN_POSITION,
+					tokenId: position.tokenId,
+					actual: position.liquidity,
+					details: !record
+						? `Position ${position.tokenId} is live on chain but not tracked as active in the database${
+								isLeg ? " although the strategy manages it" : ""
+						  }`
+						: `Position ${position.tokenId} is tracked in the database but not managed by the strategy`,
+				});
+			}
+
+			if (record && !record.liquidity.eq(position.liquidity)) {
+				discrepancies.push({
+					kind: DiscrepancyKind.LIQUIDITY_MISMATCH,
+					tokenId: position.tokenId,
+					expected: record.liquidity,
+					actual: position.liquidity,
+					details: `Position ${position.tokenId} holds ${position.liquidity} liquidity on chain, the database has ${record.liquidity}`,
+				});
+			}
+		}
+
+		const phantomIds = new Set([
+			...tracked.map((position) => position.tokenId),
+			...legTokenIds,
+		]);
+		phantomIds.forEach((tokenId) => {
+			if (onChainIds.has(tokenId)) {
+				return;
+			}
+			const record = trackedById.get(tokenId);
+			discrepancies.push({
+				kind: DiscrepancyKind.PHANTOM_POSITION,
+				tokenId,
+				expected: record?.liquidity,
+				details: `Position ${tokenId} is ${
+					record ? "tracked as active in the database" : "managed by the strategy"
+				} but not live on chain`,
+			});
+		});
+
+		return discrepancies;
+	}
+
+	/**
+	 * Find wallet balances that drifted from what the strategy accounts for
+	 * @param expected What the strategy believes it holds
+	 * @returns Balance discrepancies
+	 */
+	private async compareBalances(
+		expected: ReconciliationExpectation
+	): Promise<Discrepancy[]> {
+		const [wallet0, wallet1] = await Promise.all([
+			this.token0Contract!.balanceOf(this.walletAddress),
+			this.token1Contract!.balanceOf(this.walletAddress),
+		]);
+
+		const discrepancies: Discrepancy[] = [];
+		const checks: [string, BigNumber, BigNumber][] = [
+			[this.token0Contract!.address, expected.idleBalances.token0, wallet0],
+			[this.token1Contract!.address, expected.idleBalances.token1, wallet1],
+		];
+
+		for (const [token, trackedBalance, walletBalance] of checks) {
+			const drift = BigNumber.from(walletBalance).sub(trackedBalance);
+			if (drift.gt(0) && expected.allowWalletSurplus) {
+				continue;
+			}
+			if (this.isWithinTolerance(drift, trackedBalance)) {
+				continue;
+			}
+
+			discrepancies.push({
+				kind: DiscrepancyKind.BALANCE_DRIFT,
+				token,
+				expected: trackedBalance,
+				actual: BigNumber.from(walletBalance),
+				details: `Wallet holds ${walletBalance} of ${token}, the strategy accounts for ${trackedBalance}`,
+			});
+		}
+
+		return discrepancies;
+	}
+
+	/**
+	 * Whether a balance drift is small enough to ignore
+	 * @param drift Wallet balance minus tracked balance
+	 * @param trackedBalance Balance the strategy accounts for
+	 * @returns True if the drift is within the configured tolerance
+	 */
+	private isWithinTolerance(
+		drift: BigNumber,
+		trackedBalance: BigNumber
+	): boolean {
+		// Basis points keep two decimals of the percentage
+		const toleranceBps = Math.round(this.balanceDriftTolerancePercent * 100);
+		return drift.abs().mul(10000).lte(trackedBalance.mul(toleranceBps));
+	}
+}
@@ -0,0 +1,198 @@
+import { ethers } from "ethers";
+import { NetworkConfig } from "../utils/types";
+import {
+	CustomPoolStrategy,
+	ORACLE_CACHE_TTL_MS,
+	SharedServices,
+} from "./CustomPoolStrategy";
+import { createProvider } from "./FailoverProvider";
+import { SWAP_API_MIN_INTERVAL_MS } from "./SwapService";
+import { RateLimiter } from "../utils/rateLimiter";
+import { OracleCache } from "../utils/oracleCache";
+import IUniswapV3PoolABI from "../contracts/abis/IUniswapV3Pool.json";
+
+/**
+ * A strategy run by the supervisor
+ */
+interface SupervisedStrategy {
+	poolAddress: string;
+	config: NetworkConfig;
+	strategy: CustomPoolStrategy;
+}
+
+/**
+ * Runs one isolated strategy per pool from a single process and wallet. The
+ * strategies share the RPC provider, the oracle read cache and the swap API
+ * rate limiter; transactions are nonce-coordinated through the shared wallet
+ */
+export class StrategySupervisor {
+	private shared: SharedServices;
+	private strategies: SupervisedStrategy[];
+
+	constructor(poolConfigs: NetworkConfig[], privateKey: string) {
+		if (poolConfigs.length === 0) {
+			throw new Error("At least one pool must be configured");
+		}
+
+		const chainIds = new Set(poolConfigs.map((config) => config.chainId));
+		if (chainIds.size > 1) {
+			throw new Error(
+				`All pools must be on the same chain, got chain IDs ${Array.from(
+					chainIds
+				).join(", ")}`
+			);
+		}
+
+		const poolAddresses = poolConfigs.map((config) =>
+			config.uniswap.poolAddress.toLowerCase()
+		);
+		const duplicate = poolAddresses.find(
+			(address, index) => poolAddresses.indexOf(address) !== index
+		);
+		if (duplicate) {
+			throw new Error(`Pool ${duplicate} is configured more than once`);
+		}
+
+		this.shared = {
+			provider: createProvider(poolConfigs[0]),
+			oracleCache: new OracleCache(ORACLE_CACHE_TTL_MS),
+			swapRateLimiter: new RateLimiter(SWAP_API_MIN_INTERVAL_MS),
+		};
+
+		this.strategies = poolConfigs.map((poolConfig) => {
+			const config = this.namespaceDatabase(poolConfig, poolConfigs);
+			return {
+				poolAddress: config.uniswap.poolAddress,
+				config,
+				strategy: new CustomPoolStrategy(config, privateKey, this.shared),
+			};
+		});
+	}
+
+	/**
+	 * Initialize every strategy. A pool that fails to initialize is left out
+	 * so the others can still run
+	 * @throws Error if pools share a token or no strategy could be initialized
+	 */
+	public async initialize(): Promise<void> {
+		console.log(`Initializing ${this.strategies.length} pool strategies...`);
+
+		await this.assertDisjointTokens();
+
+		// One at a time, so initial swaps and mints don't compete for the wallet
+		const ready: SupervisedStrategy[] = [];
+		for (const entry of this.strategies) {
+			console.log(
+				`\n=== Pool ${entry.poolAddress} (database ${entry.config.database.dbName}) ===`
+			);
+			try {
+				await entry.strategy.initialize();
+				ready.push(entry);
+			} catch (error) {
+				console.error(
+					`Error initializing strategy for pool ${entry.poolAddress}, it will not run:`,
+					error
+				);
+
+				// Release what it set up before failing, e.g. its database
+				// connection and price tracking timers
+				await entry.strategy
+					.stop()
+					.catch((stopError) =>
+						console.error(
+							`Error stopping strategy for pool ${entry.poolAddress}:`,
+							stopError
+						)
+					);
+			}
+		}
+
+		if (ready.length === 0) {
+			throw new Error("No pool strategy could be initialized");
+		}
+		this.strategies = ready;
+	}
+
+	/**
+	 * Start every initialized strategy
+	 */
+	public async start(): Promise<void> {
+		console.log(
+			`Starting strategies for pools ${this.strategies
+				.map((entry) => entry.poolAddress)
+				.join(", ")}`
+		);
+
+		await Promise.all(
+			this.strategies.map((entry) =>
+				entry.strategy
+					.start()
+					.catch((error) =>
+						console.error(
+							`Strategy for pool ${entry.poolAddress} stopped:`,
+							error
+						)
+					)
+			)
+		);
+	}
+
+	/**
+	 * Give a pool its own database when several pools would share one. The
+	 * first pool keeps the configured name, so a deployment that adds pools
+	 * keeps the saved state of the pool it already ran
+	 * @param poolConfig Config of the pool
+	 * @param poolConfigs Configs of every supervised pool
+	 * @returns The config with a database name unique to the pool
+	 */
+	private namespaceDatabase(
+		poolConfig: NetworkConfig,
+		poolConfigs: NetworkConfig[]
+	): NetworkConfig {
+		const { dbName } = poolConfig.database;
+		const firstSharing = poolConfigs.find(
+			(config) => config.database.dbName === dbName
+		);
+		if (firstSharing === poolConfig) {
+			return poolConfig;
+		}
+
+		const poolSuffix = poolConfig.uniswap.poolAddress.slice(2, 10).toLowerCase();
+		return {
+			...poolConfig,
+			database: { ...poolConfig.database, dbName: `${dbName}_${poolSuffix}` },
+		};
+	}
+
+	/**
+	 * Make sure no two pools trade the same token. Each strategy sizes its
+	 * positions from the wallet balance, so a shared token would be claimed
+	 * by both
+	 * @throws Error naming the pools that share a token
+	 */
+	private async assertDisjointTokens(): Promise<void> {
+		const owners = new Map<string, string>();
+
+		for (const entry of this.strategies) {
+			const pool = new ethers.Contract(
+				entry.poolAddress,
+				IUniswapV3PoolABI,
+				this.shared.provider
+			);
+			const tokens: string[] = await Promise.all([
+				pool.token0(),
+				pool.token1(),
+			]);
+
+			for (const token of tokens.map((address) => address.toLowerCase())) {
+				const owner = owners.get(token);
+				if (owner) {
+					throw new Error(
+						`Pools ${owner} and ${entry.poolAddress} both trade token ${token}, supervised pools must not share tokens`
+					);
+				}
+				owners.set(token, entry.poolAddress);
+			}
+		}
+	}
+}
@@ -7,12 +7,17 @@ import {
 } from "../utils/types";
 import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 import dotenv from "dotenv";
+import IERC20ABI from "../contracts/abis/IERC20.json";
+import ISwapRouter02ABI from "../contracts/abis/ISwapRouter02.json";
+import { createSigner } from "./NonceManager";
+import { RateLimiter } from "../utils/rateLimiter";
 
 dotenv.config();
 
 // Constants
 const ONEINCH_API_URL = "https://api.1inch.dev/swap/v6.0";
 const API_KEY = process.env.ONEINCH_API_KEY as string;
+export const SWAP_API_MIN_INTERVAL_MS = 1100; // 1inch allows about one request per second
 
 /**
  * Minimal service for swapping tokens using 1inch aggregator API
@@ -24,13 +29,20 @@ export class SwapService {
 	private nativeETHAddress: string =
 		"0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
 	private apiKey: string = API_KEY;
-	private lastRequestTime: number = 0;
+	private rateLimiter: RateLimiter;
 	private allowanceCache: Map<string, BigNumber> = new Map();
 
-	constructor(private config: NetworkConfig, privateKey: string, provider: ethers.providers.JsonRpcProvider) {
+	constructor(
+		private config: NetworkConfig,
+		privateKey: string,
+		provider: ethers.providers.JsonRpcProvider,
+		rateLimiter?: RateLimiter
+	) {
 		this.provider = provider;
-		this.signer = new ethers.Wallet(privateKey, this.provider);
+		this.signer = createSigner(privateKey, this.provider);
 		this.walletAddress = this.signer.address;
+		// Strategies sharing an API key must share its limiter
+		this.rateLimiter = rateLimiter ?? new RateLimiter(SWAP_API_MIN_INTERVAL_MS);
 
 		console.log(`
       --------------------------------
@@ -46,16 +58,7 @@ export class SwapService {
 		url: string,
 		config: AxiosRequestConfig
 	): Promise<AxiosResponse<T>> {
-		const now = Date.now();
-		const timeSinceLastRequest = now - this.lastRequestTime;
-
-		if (timeSinceLastRequest < 1100 && this.lastRequestTime !== 0) {
-			const waitTime = 1100 - timeSinceLastRequest;
-			await new Promise((resolve) => setTimeout(resolve, waitTime));
-		}
-
-		// Update last request time
-		this.lastRequestTime = Date.now();
+		await this.rateLimiter.acquire();
 
 		// Try the request with exponential backoff on rate limit errors
 		try {
@@ -323,4 +326,87 @@ export class SwapService {
 			throw error;
 		}
 	}
+
+	/**
+	 * Executes an exact-input swap through a single Uniswap V3 pool using the
+	 * configured swapRouter instead of the 1inch API
+	 * @param fromTokenAddress Token to sell
+	 * @param toTokenAddress Token to buy
+	 * @param fee Fee tier of the pool to route through
+	 * @param amount Amount of fromToken to sell
+	 * @param amountOutMinimum Minimum amount of toToken to receive
+	 * @returns The swap transaction receipt
+	 */
+	public async swapViaRouter(
+		fromTokenAddress: string,
+		toTokenAddress: string,
+		fee: number,
+		amount: BigNumber,
+		amountOutMinimum: BigNumber
+	): Promise<ethers.providers.TransactionReceipt> {
+		const routerAddress = this.config.uniswap.swapRouter;
+
+		console.log(
+			`Swapping tokens with Uniswap router: from ${fromTokenAddress} to ${toTokenAddress}`
+		);
+		console.log(
+			`Amount in: ${amount.toString()}, Minimum out: ${amountOutMinimum.toString()}`
+		);
+
+		try {
+			// Approve the router directly, the 1inch allowance does not apply here
+			const token = new ethers.Contract(
+				fromTokenAddress,
+				IERC20ABI,
+				this.signer
+			);
+			const allowance: BigNumber = await token.allowance(
+				this.walletAddress,
+				routerAddress
+			);
+			if (allowance.lt(amount)) {
+				console.log(`Approving ${routerAddress} to spend ${fromTokenAddress}...`);
+				const approveTx = await token.approve(
+					routerAddress,
+					ethers.constants.MaxUint256
+				);
+				await approveTx.wait();
+			}
+
+			const router = new ethers.Contract(
+				routerAddress,
+				ISwapRouter02ABI,
+				this.signer
+			);
+
+			const swapCall = router.interface.encodeFunctionData(
+				"exactInputSingle",
+				[
+					{
+						tokenIn: fromTokenAddress,
+						tokenOut: toTokenAddress,
+						fee,
+						recipient: this.walletAddress,
+						amountIn: amount,
+						amountOutMinimum,
+						sqrtPriceLimitX96: 0,
+					},
+				]
+			);
+
+			// Set deadline to 10 minutes from now
+			const deadline = Math.floor(Date.now() / 1000) + 600;
+
+			const tx = await router["multicall(uint256,bytes[])"](deadline, [
+				swapCall,
+			]);
+
+			console.log(`Router swap transaction submitted: ${tx.hash}`);
+			const receipt = await tx.wait();
+			return receipt;
+		} catch (error) {
+			console.error("Error swapping tokens through router");
+			throw error;
+		}
+	}
 }
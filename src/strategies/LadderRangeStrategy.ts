@@ -0,0 +1,170 @@
+import {
+	InRangePositions,
+	LadderConfig,
+	LadderWeightCurve,
+	RangeContext,
+	TargetLeg,
+} from "../utils/types";
+import { RangeStrategy } from "./RangeStrategy";
+import { isBeyondOuterLegs } from "./NpcRangeStrategy";
+import { alignTickToSpacing, priceToTick } from "../utils/uniswapMath";
+
+/**
+ * Liquidity ladder: splits ±widthPercent/2 around spot into N contiguous (or
+ * overlapping) tick bands and weights capital across them with a curve
+ */
+export class LadderRangeStrategy implements RangeStrategy {
+	public readonly name: string = "ladder";
+	public readonly legCount: number;
+	private readonly weightCurve: LadderWeightCurve;
+	private readonly overlapPercent: number;
+
+	constructor(private widthPercent: number, ladderConfig: LadderConfig) {
+		if (!Number.isInteger(ladderConfig.legCount) || ladderConfig.legCount < 1) {
+			throw new Error(
+				`Invalid ladder config: legCount must be a positive integer, got ${ladderConfig.legCount}`
+			);
+		}
+
+		this.legCount = ladderConfig.legCount;
+		this.weightCurve = ladderConfig.weightCurve;
+		this.overlapPercent = ladderConfig.overlapPercent ?? 0;
+	}
+
+	/**
+	 * Compute the ladder bands around the current price
+	 * @param context Current price, tick and pool parameters
+	 * @returns Aligned, weighted legs ordered from lowest to highest band
+	 */
+	public async computeTargetRanges(
+		context: RangeContext
+	): Promise<TargetLeg[]> {
+		const {
+			currentPrice,
+			currentTick,
+			tickSpacing,
+			token0Decimals,
+			token1Decimals,
+		} = context;
+
+		const halfWidth = this.widthPercent / 100 / 2;
+		const ladderLowerTick = alignTickToSpacing(
+			priceToTick(currentPrice * (1 - halfWidth), token0Decimals, token1Decimals),
+			tickSpacing,
+			false // Round down
+		);
+		const ladderUpperTick = alignTickToSpacing(
+			priceToTick(currentPrice * (1 + halfWidth), token0Decimals, token1Decimals),
+			tickSpacing,
+			true // Round up
+		);
+
+		const totalTicks = ladderUpperTick - ladderLowerTick;
+		const bandTicks = totalTicks / this.legCount;
+		const overlapTicks = bandTicks * (this.overlapPercent / 100);
+
+		if (bandTicks < tickSpacing) {
+			throw new Error(
+				`Ladder of ${this.legCount} legs over ${totalTicks} ticks is narrower than the tick spacing (${tickSpacing})`
+			);
+		}
+
+		console.log(
+			`Ladder: ${this.legCount} legs over ticks [${ladderLowerTick}, ${ladderUpperTick}], band ${bandTicks.toFixed(
+				1
+			)} ticks, overlap ${overlapTicks.toFixed(1)} ticks, curve ${
+				this.weightCurve
+			}`
+		);
+
+		const legs: TargetLeg[] = [];
+		for (let i = 0; i < this.legCount; i++) {
+			const rawLower = Math.max(
+				ladderLowerTick,
+				ladderLowerTick + i * bandTicks - overlapTicks
+			);
+			const rawUpper = Math.min(
+				ladderUpperTick,
+				ladderLowerTick + (i + 1) * bandTicks + overlapTicks
+			);
+
+			const tickLower = alignTickToSpacing(rawLower, tickSpacing, false);
+			const tickUpper = Math.max(
+				alignTickToSpacing(rawUpper, tickSpacing, true),
+				tickLower + tickSpacing
+			);
+
+			legs.push({
+				tickLower,
+				tickUpper,
+				weight: this.weightFor(
+					(tickLower + tickUpper) / 2,
+					currentTick,
+					totalTicks / 2
+				),
+			});
+		}
+
+		// Normalize weights so they sum to 1
+		const totalWeight = legs.reduce((sum, leg) => sum + leg.weight, 0);
+		for (const leg of legs) {
+			leg.weight = leg.weight / totalWeight;
+		}
+
+		legs.forEach((leg, index) =>
+			console.log(
+				`Ladder leg ${index}: ticks [${leg.tickLower}, ${
+					leg.tickUpper
+				}], weight ${(leg.weight * 100).toFixed(2)}%`
+			)
+		);
+
+		return legs;
+	}
+
+	/**
+	 * Rebalance once the price leaves the whole ladder
+	 * @param context Current price, tick and pool parameters
+	 * @param positions The positions currently managed by the strategy
+	 * @returns True if the ladder should be rebuilt
+	 */
+	public shouldRebalance(
+		context: RangeContext,
+		positions: InRangePositions
+	): boolean {
+		return isBeyondOuterLegs(context, positions);
+	}
+
+	/**
+	 * Unnormalized weight of a band from its distance to spot
+	 * @param bandCenterTick Center tick of the band
+	 * @param currentTick Current pool tick
+	 * @param halfSpanTicks Half the total width of the ladder in ticks
+	 * @returns The band weight
+	 */
+	private weightFor(
+		bandCenterTick: number,
+		currentTick: number,
+		halfSpanTicks: number
+	): number {
+		const distance = Math.abs(bandCenterTick - currentTick);
+
+		switch (this.weightCurve) {
+			case "flat":
+				return 1;
+			case "triangular":
+				// Linear falloff reaching zero just beyond the ladder edge
+				return Math.max(
+					1 - distance / (halfSpanTicks + halfSpanTicks / this.legCount),
+					0.01
+				);
+			case "gaussian": {
+				// Half the ladder span corresponds to two standard deviations
+				const sigma = halfSpanTicks / 2;
+				return Math.exp(-0.5 * Math.pow(distance / sigma, 2));
+			}
+			default:
+				throw new Error(`Unknown ladder weight curve: ${this.weightCurve}`);
+		}
+	}
+}
@@ -0,0 +1,236 @@
+import {
+	InRangePositions,
+	RangeContext,
+	TargetLeg,
+} from "../utils/types";
+import { RangeStrategy } from "./RangeStrategy";
+import {
+	alignTickToSpacing,
+	priceToTick,
+	tickToPrice,
+} from "../utils/uniswapMath";
+
+/**
+ * Default NPC layout: two adjacent positions spanning ±widthPercent/2 around
+ * spot, meeting slightly below the current price so the upper leg holds
+ * token0 and the lower leg holds token1 only
+ */
+export class NpcRangeStrategy implements RangeStrategy {
+	public readonly name: string = "npc";
+	public readonly legCount: number = 2;
+
+	constructor(
+		private widthPercent: number,
+		private overlapPercent: number = 5
+	) {}
+
+	/**
+	 * Compute the upper and lower position ranges around the current price
+	 * @param context Current price, tick and pool parameters
+	 * @returns Aligned tick ranges for the lower and upper legs
+	 */
+	public async computeTargetRanges(
+		context: RangeContext
+	): Promise<TargetLeg[]> {
+		return this.computeRangesForWidth(context, this.widthPercent);
+	}
+
+	/**
+	 * Compute the NPC two-leg layout for an explicit width
+	 * @param context Current price, tick and pool parameters
+	 * @param widthPercent Total width of both legs as a percentage of price
+	 * @returns Aligned tick ranges for the lower and upper legs
+	 */
+	protected computeRangesForWidth(
+		context: RangeContext,
+		widthPercent: number
+	): TargetLeg[] {
+		const { currentPrice, tickSpacing, token0Decimals, token1Decimals } =
+			context;
+
+		// Calculate price range based on width percent
+		// If current price is 2500 and width is 20%, the range would be 500
+		const priceRange = currentPrice * (widthPercent / 100);
+
+		// Calculate upper and lower bounds with overlap
+		const overlapAmount = priceRange * (this.overlapPercent / 100);
+
+		// Calculate price points
+		const upperPositionUpperPrice = currentPrice + priceRange / 2;
+		const transitionPrice = currentPrice - overlapAmount;
+		const lowerPositionLowerPrice = currentPrice - priceRange / 2;
+
+		console.log(
+			`Width percent: ${widthPercent}%, Price range: ${priceRange.toFixed(
+				2
+			)}`
+		);
+		console.log(
+			`Overlap amount: ${overlapAmount.toFixed(2)} (${
+				this.overlapPercent
+			}% of range)`
+		);
+		console.log(
+			`Price points: upper=${upperPositionUpperPrice.toFixed(
+				2
+			)}, transition=${transitionPrice.toFixed(
+				2
+			)}, lower=${lowerPositionLowerPrice.toFixed(2)}`
+		);
+
+		// Calculate raw ticks using the correct Uniswap V3 formula
+		const upperPositionUpperTick = priceToTick(
+			upperPositionUpperPrice,
+			token0Decimals,
+			token1Decimals
+		);
+		const transitionTick = priceToTick(
+			transitionPrice,
+			token0Decimals,
+			token1Decimals
+		);
+		const lowerPositionLowerTick = priceToTick(
+			lowerPositionLowerPrice,
+			token0Decimals,
+			token1Decimals
+		);
+
+		console.log(
+			`Raw ticks: upper=${upperPositionUpperTick}, transition=${transitionTick}, lower=${lowerPositionLowerTick}`
+		);
+
+		// Align ticks to tick spacing with proper rounding:
+		// - Lower bounds: round down (towards negative infinity)
+		// - Upper bounds: round up (towards positive infinity)
+		const alignedUpperPositionUpperTick = alignTickToSpacing(
+			upperPositionUpperTick,
+			tickSpacing,
+			true // Round up
+		);
+		const alignedTransitionTick = alignTickToSpacing(
+			transitionTick,
+			tickSpacing,
+			false // Round down for cleaner boundary
+		);
+		const alignedLowerPositionLowerTick = alignTickToSpacing(
+			lowerPositionLowerTick,
+			tickSpacing,
+			false // Round down
+		);
+
+		console.log(
+			`Aligned ticks: upper=${alignedUpperPositionUpperTick}, transition=${alignedTransitionTick}, lower=${alignedLowerPositionLowerTick}`
+		);
+
+		// Calculate the actual prices at the aligned ticks for reporting
+		const alignedUpperPositionUpperPrice = tickToPrice(
+			alignedUpperPositionUpperTick,
+			token0Decimals,
+			token1Decimals
+		);
+		const alignedTransitionPrice = tickToPrice(
+			alignedTransitionTick,
+			token0Decimals,
+			token1Decimals
+		);
+		const alignedLowerPositionLowerPrice = tickToPrice(
+			alignedLowerPositionLowerTick,
+			token0Decimals,
+			token1Decimals
+		);
+
+		console.log(`===== Position Configuration =====`);
+		console.log(
+			`Lower position (token1 only): Price range ${alignedLowerPositionLowerPrice} to ${alignedTransitionPrice}`
+		);
+		console.log(
+			`Upper position (token0 only): Price range ${alignedTransitionPrice} to ${alignedUpperPositionUpperPrice}`
+		);
+		console.log(
+			`Positions meet at tick ${alignedTransitionTick} (price: ${alignedTransitionPrice})`
+		);
+
+		return [
+			// Lower position: token1 only, from lower bound to transition point
+			{
+				tickLower: alignedLowerPositionLowerTick,
+				tickUpper: alignedTransitionTick,
+				weight: 1,
+			},
+			// Upper position: token0 only, from transition point to upper bound
+			{
+				tickLower: alignedTransitionTick,
+				tickUpper: alignedUpperPositionUpperTick,
+				weight: 1,
+			},
+		];
+	}
+
+	/**
+	 * Check if the price is beyond the outer bounds of both legs by more than
+	 * two tick spacings
+	 * @param context Current price, tick and pool parameters
+	 * @param positions The positions currently managed by the strategy
+	 * @returns True if the positions should be closed and reopened
+	 */
+	public shouldRebalance(
+		context: RangeContext,
+		positions: InRangePositions
+	): boolean {
+		return isBeyondOuterLegs(context, positions);
+	}
+}
+
+/**
+ * Check if the current tick has left the band covered by all legs by more
+ * than two tick spacings on either side
+ * @param context Current price, tick and pool parameters
+ * @param positions The positions currently managed by the strategy
+ * @returns True if the price is beyond the outer thresholds
+ */
+export function isBeyondOuterLegs(
+	context: RangeContext,
+	positions: InRangePositions
+): boolean {
+	const { legs } = positions;
+	if (legs.length === 0) {
+		return false;
+	}
+
+	const { currentTick, tickSpacing } = context;
+
+	const upperPositionUpper = Math.max(...legs.map((leg) => leg.tickUpper));
+	const lowerPositionLower = Math.min(...legs.map((leg) => leg.tickLower));
+
+	const upperTickThreshold = upperPositionUpper + 2 * tickSpacing;
+	const lowerTickThreshold = lowerPositionLower - 2 * tickSpacing;
+
+	console.log(
+		`Current tick: ${currentTick}, Upper tick threshold: ${upperTickThreshold}, Lower tick threshold: ${lowerTickThreshold}`
+	);
+
+	// Check if current price is beyond either threshold
+	// For Uniswap V3:
+	// - If currentTick > upperTickThreshold, price is below lower bound
+	// - If currentTick < lowerTickThreshold, price is above upper bound
+	const isAboveUpperThreshold = currentTick < lowerTickThreshold;
+	const isBelowLowerThreshold = currentTick > upperTickThreshold;
+
+	if (isAboveUpperThreshold) {
+		console.log(
+			`Price is above upper threshold (${upperTickThreshold.toFixed(
+				2
+			)}), should close positions`
+		);
+	}
+
+	if (isBelowLowerThreshold) {
+		console.log(
+			`Price is below lower threshold (${lowerTickThreshold.toFixed(
+				2
+			)}), should close positions`
+		);
+	}
+
+	return isAboveUpperThreshold || isBelowLowerThreshold;
+}
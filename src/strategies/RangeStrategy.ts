@@ -0,0 +1,84 @@
+import {
+	InRangePositions,
+	NetworkConfig,
+	RangeContext,
+	TargetLeg,
+} from "../utils/types";
+import { DataTrackingService } from "../services/DataTrackingService";
+import { NpcRangeStrategy } from "./NpcRangeStrategy";
+import { VolatilityRangeStrategy } from "./VolatilityRangeStrategy";
+import { LadderRangeStrategy } from "./LadderRangeStrategy";
+
+/**
+ * A range policy decides where liquidity should sit and when it has to move.
+ * The orchestration around it (closing, swapping, minting, tracking) lives in
+ * CustomPoolStrategy and is shared by every policy.
+ */
+export interface RangeStrategy {
+	readonly name: string;
+
+	/**
+	 * Number of positions this policy keeps open at once
+	 */
+	readonly legCount: number;
+
+	/**
+	 * Compute the tick bands to open for the given market state
+	 * @param context Current price, tick and pool parameters
+	 * @returns Aligned, weighted legs ordered from lowest to highest band
+	 */
+	computeTargetRanges(context: RangeContext): Promise<TargetLeg[]>;
+
+	/**
+	 * Decide whether the live positions have to be closed and reopened
+	 * @param context Current price, tick and pool parameters
+	 * @param positions The positions currently managed by the strategy
+	 * @returns True if a rebalance should be triggered
+	 */
+	shouldRebalance(context: RangeContext, positions: InRangePositions): boolean;
+}
+
+/**
+ * Build the range strategy selected in the network config
+ * @param config Network configuration
+ * @param dataTrackingService Source of stored price history
+ * @returns The configured range strategy (NPC layout by default)
+ */
+export function createRangeStrategy(
+	config: NetworkConfig,
+	dataTrackingService: DataTrackingService
+): RangeStrategy {
+	const type = config.strategy.rangeStrategy ?? "npc";
+
+	switch (type) {
+		case "npc":
+			return new NpcRangeStrategy(
+				config.strategy.widthPercent,
+				config.strategy.overlapPercent
+			);
+		case "volatility":
+			if (!config.strategy.volatility) {
+				throw new Error(
+					"Volatility range strategy requires strategy.volatility settings"
+				);
+			}
+			return new VolatilityRangeStrategy(
+				config.strategy.widthPercent,
+				config.strategy.volatility,
+				dataTrackingService,
+				config.strategy.overlapPercent
+			);
+		case "ladder":
+			if (!config.strategy.ladder) {
+				throw new Error(
+					"Ladder range strategy requires strategy.ladder settings"
+				);
+			}
+			return new LadderRangeStrategy(
+				config.strategy.widthPercent,
+				config.strategy.ladder
+			);
+		default:
+			throw new Error(`Unknown range strategy: ${type}`);
+	}
+}
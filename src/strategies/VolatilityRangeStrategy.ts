@@ -0,0 +1,105 @@
+import { PriceData, RangeContext, TargetLeg, VolatilityConfig } from "../utils/types";
+import { DataTrackingService } from "../services/DataTrackingService";
+import { NpcRangeStrategy } from "./NpcRangeStrategy";
+
+/**
+ * NPC two-leg layout whose total width follows realized volatility of the
+ * stored price history instead of the fixed widthPercent
+ */
+export class VolatilityRangeStrategy extends NpcRangeStrategy {
+	public readonly name: string = "volatility";
+	private readonly minSamples: number;
+
+	constructor(
+		private fallbackWidthPercent: number,
+		private volatilityConfig: VolatilityConfig,
+		private dataTrackingService: DataTrackingService,
+		overlapPercent?: number
+	) {
+		super(fallbackWidthPercent, overlapPercent);
+
+		if (volatilityConfig.minWidthPercent > volatilityConfig.maxWidthPercent) {
+			throw new Error(
+				"Invalid volatility config: minWidthPercent must be <= maxWidthPercent"
+			);
+		}
+
+		this.minSamples = volatilityConfig.minSamples ?? 10;
+	}
+
+	/**
+	 * Compute the two-leg layout using a width derived from realized volatility
+	 * @param context Current price, tick and pool parameters
+	 * @returns Aligned tick ranges for both legs
+	 */
+	public async computeTargetRanges(
+		context: RangeContext
+	): Promise<TargetLeg[]> {
+		const widthPercent = await this.computeWidthPercent();
+		return this.computeRangesForWidth(context, widthPercent);
+	}
+
+	/**
+	 * Derive the range width from the prices recorded over the lookback window
+	 * @returns Width percent clamped to the configured bounds
+	 */
+	public async computeWidthPercent(): Promise<number> {
+		const { lookbackHours, sigmaMultiplier, minWidthPercent, maxWidthPercent } =
+			this.volatilityConfig;
+
+		const since = Math.floor(Date.now() / 1000) - lookbackHours * 60 * 60;
+		const prices = await this.dataTrackingService.getPriceHistorySince(since);
+
+		if (prices.length < this.minSamples) {
+			console.log(
+				`Only ${prices.length} price samples in the last ${lookbackHours}h (need ${this.minSamples}), using fixed width ${this.fallbackWidthPercent}%`
+			);
+			return this.fallbackWidthPercent;
+		}
+
+		const realizedVolatility = computeRealizedVolatility(prices);
+
+		// Width spans ±N sigma around spot
+		const rawWidthPercent = 2 * sigmaMultiplier * realizedVolatility * 100;
+		const widthPercent = Math.min(
+			maxWidthPercent,
+			Math.max(minWidthPercent, rawWidthPercent)
+		);
+
+		console.log(
+			`Realized volatility over ${lookbackHours}h (${
+				prices.length
+			} samples): ${(realizedVolatility * 100).toFixed(
+				3
+			)}%, raw width ${rawWidthPercent.toFixed(
+				2
+			)}%, clamped width ${widthPercent.toFixed(2)}%`
+		);
+
+		return widthPercent;
+	}
+}
+
+/**
+ * Realized volatility over a price series: the square root of the summed
+ * squared log returns between consecutive samples
+ * @param prices Price data in ascending timestamp order
+ * @returns Realized volatility as a fraction (0.05 = 5%)
+ */
+export function computeRealizedVolatility(prices: PriceData[]): number {
+	let sumSquaredReturns = 0;
+
+	for (let i = 1; i < prices.length; i++) {
+		const previous = prices[i - 1].uniswapPrice;
+		const current = prices[i].uniswapPrice;
+
+		if (previous <= 0 || current <= 0) {
+			continue;
+		}
+
+		const logReturn = Math.log(current / previous);
+		sumSquaredReturns += logReturn * logReturn;
+	}
+
+	return Math.sqrt(sumSquaredReturns);
+}
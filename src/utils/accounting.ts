@@ -0,0 +1,159 @@
+import { BigNumber } from "ethers";
+import { quoteToken0InToken1, quoteToken1InToken0 } from "./uniswapMath";
+
+/**
+ * What went into a leg and what came out of it, in raw token units
+ */
+export interface LegFlows {
+	tokenId: number;
+	deposited0: BigNumber; // Sum of token0 used by mint and increases
+	deposited1: BigNumber;
+	balancedHold0: BigNumber; // Deposits re-split 50/50 by value at deposit time
+	balancedHold1: BigNumber;
+	principal0: BigNumber; // From DecreaseLiquidity
+	principal1: BigNumber;
+	fees0: BigNumber; // Collect minus DecreaseLiquidity
+	fees1: BigNumber;
+}
+
+/**
+ * Profit and loss of a leg against two benchmarks, valued in raw token1 at
+ * the exit price. Impermanent loss compares principal only; the net figures
+ * add the fees earned
+ */
+export interface LegPnl {
+	tokenId: number;
+	principalValue: BigNumber;
+	feeValue: BigNumber;
+	hodlValue: BigNumber; // Deposited amounts held untouched
+	balancedValue: BigNumber; // Deposit value split 50/50 at entry and held
+	ilVsHodl: BigNumber; // principalValue - hodlValue, negative for a loss
+	ilVsBalanced: BigNumber; // principalValue - balancedValue
+	netVsHodl: BigNumber; // ilVsHodl + feeValue
+	netVsBalanced: BigNumber; // ilVsBalanced + feeValue
+	ilVsHodlPercent: number; // ilVsHodl as % of hodlValue
+	ilVsBalancedPercent: number; // ilVsBalanced as % of balancedValue
+}
+
+/**
+ * Profit and loss of every leg closed in one rebalance cycle
+ */
+export interface CyclePnl extends Omit<LegPnl, "tokenId"> {
+	cycle: number;
+	legs: LegPnl[];
+}
+
+// Precision used when converting value ratios to percentages
+const PERCENT_PRECISION = 1e6;
+
+/**
+ * Holdings of a portfolio that put the same value 50/50 into both tokens
+ * @param amount0 Deposited token0
+ * @param amount1 Deposited token1
+ * @param sqrtPriceX96 Pool sqrt price at deposit time
+ * @returns token0 and token1 each worth half of the deposit
+ */
+export function balancedHoldingsFor(
+	amount0: BigNumber,
+	amount1: BigNumber,
+	sqrtPriceX96: BigNumber
+): { amount0: BigNumber; amount1: BigNumber } {
+	const halfValue = quoteToken0InToken1(amount0, sqrtPriceX96)
+		.add(amount1)
+		.div(2);
+	return {
+		amount0: quoteToken1InToken0(halfValue, sqrtPriceX96),
+		amount1: halfValue,
+	};
+}
+
+/**
+ * Value a closed leg against holding its deposits and against a 50/50 hold
+ * @param flows Deposits, benchmark holdings and close amounts of the leg
+ * @param sqrtPriceX96 Pool sqrt price at exit
+ * @returns The leg's profit and loss in raw token1
+ */
+export function computeLegPnl(
+	flows: LegFlows,
+	sqrtPriceX96: BigNumber
+): LegPnl {
+	const value = (amount0: BigNumber, amount1: BigNumber) =>
+		quoteToken0InToken1(amount0, sqrtPriceX96).add(amount1);
+
+	return buildPnl(
+		value(flows.principal0, flows.principal1),
+		value(flows.fees0, flows.fees1),
+		value(flows.deposited0, flows.deposited1),
+		value(flows.balancedHold0, flows.balancedHold1),
+		{ tokenId: flows.tokenId }
+	);
+}
+
+/**
+ * Add up the profit and loss of the legs closed in one cycle
+ * @param cycle Cycle number
+ * @param legs Profit and loss of each closed leg
+ * @returns The cycle's profit and loss in raw token1
+ */
+export function summarizeCycle(cycle: number, legs: LegPnl[]): CyclePnl {
+	const sum = (pick: (leg: LegPnl) => BigNumber) =>
+		legs.reduce((total, leg) => total.add(pick(leg)), BigNumber.from(0));
+
+	return buildPnl(
+		sum((leg) => leg.principalValue),
+		sum((leg) => leg.feeValue),
+		sum((leg) => leg.hodlValue),
+		sum((leg) => leg.balancedValue),
+		{ cycle, legs }
+	);
+}
+
+/**
+ * Derive impermanent loss and net figures from the four values
+ * @param principalValue Value of the withdrawn principal
+ * @param feeValue Value of the collected fees
+ * @param hodlValue Value of the deposits held untouched
+ * @param balancedValue Value of the 50/50 hold
+ * @param extra Fields identifying the leg or cycle
+ * @returns The profit and loss record
+ */
+function buildPnl<T extends object>(
+	principalValue: BigNumber,
+	feeValue: BigNumber,
+	hodlValue: BigNumber,
+	balancedValue: BigNumber,
+	extra: T
+): Omit<LegPnl, "tokenId"> & T {
+	const ilVsHodl = principalValue.sub(hodlValue);
+	const ilVsBalanced = principalValue.sub(balancedValue);
+
+	return {
+		...extra,
+		principalValue,
+		feeValue,
+		hodlValue,
+		balancedValue,
+		ilVsHodl,
+		ilVsBalanced,
+		netVsHodl: ilVsHodl.add(feeValue),
+		netVsBalanced: ilVsBalanced.add(feeValue),
+		ilVsHodlPercent: percentOf(ilVsHodl, hodlValue),
+		ilVsBalancedPercent: percentOf(ilVsBalanced, balancedValue),
+	};
+}
+
+/**
+ * Express a value as a percentage of a base
+ * @param value The value
+ * @param base The base, zero yields 0
+ * @returns value / base * 100
+ */
+function percentOf(value: BigNumber, base: BigNumber): number {
+	if (base.isZero()) {
+		return 0;
+	}
+	return (
+		value.mul(100 * PERCENT_PRECISION).div(base).toNumber() /
+		PERCENT_PRECISION
+	);
+}
@@ -0,0 +1,103 @@
+import { BigNumber } from "ethers";
+import { TargetLeg, TickRange } from "./types";
+import {
+	getAmountsForLiquidity,
+	getSqrtRatioAtTick,
+	quoteToken0InToken1,
+} from "./uniswapMath";
+
+/**
+ * Share of each token that a leg should receive from the wallet balances
+ */
+export interface LegDepositShare {
+	token0Share: number; // Fraction of the total token0 going to this leg
+	token1Share: number; // Fraction of the total token1 going to this leg
+}
+
+/**
+ * How capital has to be split between token0 and token1 (and across legs) so
+ * that every leg receives exactly the ratio its range needs at the current price
+ */
+export interface DepositPlan {
+	token0ValueFraction: number; // Fraction of total value to hold as token0
+	legs: LegDepositShare[]; // Same order as the target legs
+}
+
+// Reference liquidity used to size legs; large enough that rounding in the
+// exact amount math is negligible relative to the resulting amounts
+const REFERENCE_LIQUIDITY = BigNumber.from(10).pow(24);
+
+// Precision used when converting value ratios to floating point
+const RATIO_PRECISION = BigNumber.from(10).pow(12);
+
+/**
+ * Fraction of a position's value held as token0 at the given price
+ * @param range Tick range of the position
+ * @param sqrtPriceX96 Current pool sqrt price
+ * @returns Value fraction in token0, between 0 and 1
+ */
+export function legToken0ValueFraction(
+	range: TickRange,
+	sqrtPriceX96: BigNumber
+): number {
+	const { amount0, amount1 } = getAmountsForLiquidity(
+		sqrtPriceX96,
+		getSqrtRatioAtTick(range.tickLower),
+		getSqrtRatioAtTick(range.tickUpper),
+		REFERENCE_LIQUIDITY
+	);
+
+	const value0 = quoteToken0InToken1(amount0, sqrtPriceX96);
+	const totalValue = value0.add(amount1);
+	if (totalValue.isZero()) {
+		return 0;
+	}
+
+	return (
+		value0.mul(RATIO_PRECISION).div(totalValue).toNumber() /
+		RATIO_PRECISION.toNumber()
+	);
+}
+
+/**
+ * Compute how to split the wallet between tokens and legs so each leg gets
+ * its weighted share of value in exactly the ratio its range needs
+ * @param legs Target legs with weights
+ * @param sqrtPriceX96 Current pool sqrt price
+ * @returns The deposit plan
+ */
+export function computeDepositPlan(
+	legs: TargetLeg[],
+	sqrtPriceX96: BigNumber
+): DepositPlan {
+	const totalWeight = legs.reduce((sum, leg) => sum + leg.weight, 0);
+	if (totalWeight <= 0) {
+		throw new Error("Cannot plan deposit for legs without weight");
+	}
+
+	// Value of each leg held in token0 and token1, as fractions of the total
+	const legValues = legs.map((leg) => {
+		const fraction0 = legToken0ValueFraction(leg, sqrtPriceX96);
+		const valueShare = leg.weight / totalWeight;
+		return {
+			value0: valueShare * fraction0,
+			value1: valueShare * (1 - fraction0),
+		};
+	});
+
+	const token0ValueFraction = legValues.reduce(
+		(sum, leg) => sum + leg.value0,
+		0
+	);
+	const token1ValueFraction = 1 - token0ValueFraction;
+
+	return {
+		token0ValueFraction,
+		legs: legValues.map((leg) => ({
+			token0Share:
+				token0ValueFraction > 0 ? leg.value0 / token0ValueFraction : 0,
+			token1Share:
+				token1ValueFraction > 0 ? leg.value1 / token1ValueFraction : 0,
+		})),
+	};
+}
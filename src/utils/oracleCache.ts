@@ -0,0 +1,37 @@
+/**
+ * Short-lived cache for on-chain oracle reads. Reads of the same key within
+ * the TTL share one RPC call, including reads still in flight
+ */
+export class OracleCache {
+	private entries: Map<string, { expiresAt: number; value: Promise<unknown> }> =
+		new Map();
+
+	constructor(private ttlMs: number) {}
+
+	/**
+	 * Return the cached value for a key, loading it if missing or expired
+	 * @param key Cache key, e.g. contract address and method
+	 * @param load Reads the value from the chain
+	 * @returns The cached or freshly loaded value
+	 */
+	public get<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const now = Date.now();
+		const entry = this.entries.get(key);
+		// Each key is only ever loaded by one method, so the type matches
+		if (entry && entry.expiresAt > now) {
+			return entry.value as Promise<T>;
+		}
+
+		const value = load();
+		this.entries.set(key, { expiresAt: now + this.ttlMs, value });
+
+		// Failed reads are retried by the next caller
+		value.catch(() => {
+			if (this.entries.get(key)?.value === value) {
+				this.entries.delete(key);
+			}
+		});
+
+		return value;
+	}
+}
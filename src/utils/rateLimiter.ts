@@ -0,0 +1,23 @@
+/**
+ * Spaces calls out by a minimum interval. Each caller reserves the next free
+ * slot up front, so concurrent callers sharing one limiter queue up instead
+ * of firing together
+ */
+export class RateLimiter {
+	private nextSlot: number = 0;
+
+	constructor(private minIntervalMs: number) {}
+
+	/**
+	 * Wait until the caller's slot comes up
+	 */
+	public async acquire(): Promise<void> {
+		const now = Date.now();
+		const slot = Math.max(now, this.nextSlot);
+		this.nextSlot = slot + this.minIntervalMs;
+
+		if (slot > now) {
+			await new Promise((resolve) => setTimeout(resolve, slot - now));
+		}
+	}
+}
@@ -4,6 +4,9 @@ import { BigNumber } from "ethers";
 export interface NetworkConfig {
 	network: string;
 	rpcUrl: string;
+	rpcUrls?: RpcEndpointConfig[]; // Failover endpoints, rpcUrl is used if unset
+	rpcHealth?: Partial<RpcHealthConfig>;
+	wsUrl?: string; // WebSocket endpoint, required for the block loop
 	chainId: number;
 	uniswap: {
 		swapRouter: string;
@@ -14,18 +17,64 @@ export interface NetworkConfig {
 	strategy: {
 		checkInterval: number;
 		widthPercent: number;
+		loopMode?: LoopMode; // Defaults to "poll"
+		rangeStrategy?: RangeStrategyType; // Defaults to "npc"
+		rebalanceMode?: RebalanceMode; // Defaults to "full"
+		atomicSwapTolerancePercent?: number; // Imbalance tolerated without a swap in atomic mode, defaults to 0.5
+		routerSlippagePercent?: number; // Slippage for swapRouter swaps, defaults to 0.5
+		mintSlippagePercent?: number; // Slippage allowed when adding liquidity, defaults to 2
+		topUpMinValue?: number; // Idle wallet value (token1 units) deposited into live legs, disabled if unset
+		compounding?: CompoundingConfig; // Fee auto-compounding, disabled if unset
+		reconciliation?: ReconciliationConfig; // Chain-vs-database checks, disabled if unset
+		unmanagedPositions?: UnmanagedPositionPolicy; // Defaults to "close"
+		feePolicy?: FeePolicyConfig; // What to do with fees collected on close, defaults to "compound"
+		depositRatio?: DepositRatioMode; // Defaults to "5050"
+		overlapPercent?: number; // Overlap between adjacent legs, defaults to 5
+		volatility?: VolatilityConfig;
+		ladder?: LadderConfig;
 	};
+	oracle?: OracleConfig;
     database: {
         mongoUri: string;
         dbName: string;
     }
 }
 
+// An RPC endpoint, lower priority values are preferred
+export interface RpcEndpointConfig {
+	url: string;
+	priority: number;
+}
+
+// Thresholds used to score RPC endpoints and fail over between them
+export interface RpcHealthConfig {
+	timeoutMs: number; // Per request timeout
+	maxBlockLag: number; // Blocks behind the highest endpoint before it is stale
+	healthCheckIntervalMs: number;
+	maxConsecutiveFailures: number; // Failures before an endpoint cools down
+	cooldownMs: number;
+}
+
+// Health of an RPC endpoint as reported by the failover provider
+export interface RpcEndpointHealth {
+	url: string;
+	priority: number;
+	blockNumber: number;
+	latencyMs: number;
+	errorRate: number;
+	consecutiveFailures: number;
+	stale: boolean;
+	coolingDown: boolean;
+	active: boolean;
+}
+
 // Price data from oracle
 export interface PriceData {
 	uniswapPrice: number;
 	timestamp: number;
-	tick: number;
+	tick: number; // Spot tick from slot0
+	twapTick?: number; // Arithmetic-mean tick over the TWAP window
+	twapPrice?: number; // Price at the TWAP tick
 }
 
 // LP Position information
@@ -33,12 +82,15 @@ export interface PositionInfo {
 	tickLower: number;
 	tickUpper: number;
 	liquidity: BigNumber;
-	amount0?: BigNumber;
-	amount1?: BigNumber;
+	amount0?: BigNumber; // Underlying token0 at the current price
+	amount1?: BigNumber; // Underlying token1 at the current price
+	valueInToken1?: BigNumber; // amount0 quoted in token1 plus amount1
 	inRange: boolean;
 	tokenId: number;
 	token0Amount?: BigNumber;
 	token1Amount?: BigNumber;
+	balancedHold0?: BigNumber; // Deposits re-split 50/50 by value, IL benchmark
+	balancedHold1?: BigNumber;
 	feeGrowthInside0LastX128: BigNumber;
 	feeGrowthInside1LastX128: BigNumber;
 	priceLower: number;
@@ -46,10 +98,190 @@ export interface PositionInfo {
 	isActive: boolean;
 }
 
+// Outcome of closing a position through the batched multicall path
+export interface ClosedPosition {
+	tokenId: number;
+	amount0: BigNumber; // token0 left in the wallet after the fee policy ran
+	amount1: BigNumber; // token1 left in the wallet after the fee policy ran
+	principal0: BigNumber; // From DecreaseLiquidity
+	principal1: BigNumber;
+	fees0: BigNumber; // Collect minus DecreaseLiquidity
+	fees1: BigNumber;
+	retainedFees0: BigNumber; // Fees still held as pool tokens after the fee policy ran
+	retainedFees1: BigNumber;
+}
+
+// Fees owed to a position, computed from the pool's fee growth accumulators
+export interface UncollectedFees {
+	tokenId: number;
+	amount0: BigNumber; // Includes tokensOwed already credited to the position
+	amount1: BigNumber;
+}
+
+// Parameters for one position minted as part of a batch
+export interface MintRequest {
+	tickLower: number;
+	tickUpper: number;
+	amount0Desired: BigNumber;
+	amount1Desired: BigNumber;
+	amount0Min: BigNumber;
+	amount1Min: BigNumber;
+}
+
+// A position minted as part of a batch
+export interface MintedPosition {
+	tokenId: number;
+	amount0Used: BigNumber;
+	amount1Used: BigNumber;
+}
+
 // In-Range strategy positions
 export interface InRangePositions {
-	upper: PositionInfo | null; // Position with higher price range (WETH)
-	lower: PositionInfo | null; // Position with lower price range (USDC)
+	legs: PositionInfo[]; // Managed positions ordered from lowest to highest tick band
+}
+
+// Range policies that can drive the strategy
+export type RangeStrategyType = "npc" | "volatility" | "ladder";
+
+// How the strategy is driven: polling every checkInterval or on new blocks
+export type LoopMode = "poll" | "block";
+
+// Which price the strategy uses to decide on rebalances
+export type PriceSource = "spot" | "twap";
+
+// Settings for the pool price oracle
+export interface OracleConfig {
+	priceSource: PriceSource;
+	twapWindowSeconds: number; // Length of the observe() window
+	maxSpotTwapDeviationTicks?: number; // Manipulation guard, disabled if unset
+	cardinality?: CardinalityConfig;
+	aggregator?: AggregatorConfig;
+}
+
+// Secondary Chainlink-style price feed used to cross-check the pool price
+export interface AggregatorConfig {
+	address: string; // AggregatorV3Interface feed address
+	invert?: boolean; // Set if the feed quotes token0 per token1
+	maxStalenessSeconds: number;
+	maxDivergencePercent: number;
+}
+
+// Result of comparing the pool price against the secondary feed
+export interface PriceFeedDivergence {
+	poolPrice: number;
+	feedPrice: number;
+	feedUpdatedAt: number;
+	divergencePercent: number;
+	maxDivergencePercent: number;
+	stale: boolean;
+	exceeded: boolean; // True if stale or diverging beyond the threshold
+}
+
+// Settings for growing the pool's observation buffer to cover the TWAP window
+export interface CardinalityConfig {
+	blockTimeSeconds: number; // Average block time, at most one observation per block
+	autoIncrease: boolean; // Send increaseObservationCardinalityNext when short
+	dryRun: boolean; // Only report the required increase and its gas cost
+	maxGasCostEth: number; // Gas budget for the increase transaction
+}
+
+// Outcome of the observation cardinality check
+export interface CardinalityReport {
+	current: number;
+	next: number;
+	required: number;
+	gasEstimate?: BigNumber;
+	gasCostEth?: number;
+	action: "sufficient" | "dry-run" | "over-budget" | "increased" | "skipped";
+}
+
+// Result of comparing the spot tick against the TWAP tick
+export interface SpotTwapDeviation {
+	spotTick: number;
+	twapTick: number;
+	deviationTicks: number;
+	maxDeviationTicks: number;
+	exceeded: boolean;
+}
+
+// How positions are moved once the price leaves the layout
+export type RebalanceMode = "full" | "leapfrog" | "atomic";
+
+// How the wallet is split between token0 and token1 before minting
+export type DepositRatioMode = "5050" | "range";
+
+// Capital distribution across ladder legs
+export type LadderWeightCurve = "flat" | "triangular" | "gaussian";
+
+// How fees collected when closing a position are handled:
+// - keep: leave them in the wallet as pool tokens, outside the new legs
+// - compound: redeploy them into the new legs with the principal
+// - sweep: transfer them to a treasury address
+// - convert: swap them into another token
+export type FeePolicyMode = "keep" | "compound" | "sweep" | "convert";
+
+// What to do with positions on the pool that the strategy did not mint:
+// - adopt: manage them like the strategy's own positions
+// - ignore: leave them untouched
+// - close: close them and use the funds
+export type UnmanagedPositionPolicy = "adopt" | "ignore" | "close";
+
+// Fee routing settings
+export interface FeePolicyConfig {
+	mode: FeePolicyMode;
+	treasuryAddress?: string; // Required for "sweep"
+	convertToken?: string; // Required for "convert"
+	convertSlippagePercent?: number; // Defaults to 1
+}
+
+// Settings for periodically re-adding collected fees to the live legs
+export interface CompoundingConfig {
+	intervalSeconds: number; // Minimum time between compounding attempts
+	minFeeToGasRatio: number; // Fee value must be at least this multiple of the gas cost
+	gasPerLeg?: number; // Estimated gas for collecting and re-adding one leg, defaults to 300000
+}
+
+// Settings for checking the database records against the chain
+export interface ReconciliationConfig {
+	intervalSeconds: number; // Minimum time between scheduled runs
+	onStartup?: boolean; // Run once after initialization, defaults to true
+	balanceDriftTolerancePercent?: number; // Wallet drift from the tracked balances tolerated, defaults to 1
+}
+
+// Settings for the N-leg liquidity ladder
+export interface LadderConfig {
+	legCount: number;
+	weightCurve: LadderWeightCurve;
+	overlapPercent?: number; // Overlap between adjacent bands as % of band width, defaults to 0
+}
+
+// Settings for the volatility-adaptive range width
+export interface VolatilityConfig {
+	lookbackHours: number; // Window of stored prices used for realized volatility
+	sigmaMultiplier: number; // Width covers ±N sigma of the realized move
+	minWidthPercent: number;
+	maxWidthPercent: number;
+	minSamples?: number; // Fall back to widthPercent below this many prices, defaults to 10
+}
+
+// A tick band for a single position
+export interface TickRange {
+	tickLower: number;
+	tickUpper: number;
+}
+
+// Target tick band for one leg, as computed by a range strategy
+export interface TargetLeg extends TickRange {
+	weight: number; // Relative share of capital for this leg
+}
+
+// Market state handed to a range strategy
+export interface RangeContext {
+	currentPrice: number;
+	currentTick: number;
+	tickSpacing: number;
+	token0Decimals: number;
+	token1Decimals: number;
 }
 
 // Close balances for in-range strategy
@@ -58,6 +290,41 @@ export interface CloseBalances {
 	token1: BigNumber; // USDC
 }
 
+// Steps of a full rebalance. MINTING mints the target legs one at a time
+// (lower then upper for the two-leg layout) and repeats until all are live
+export enum RebalancePhase {
+	CLOSING = "CLOSING",
+	SWAPPING = "SWAPPING",
+	MINTING = "MINTING",
+	DONE = "DONE",
+}
+
+// A full rebalance in flight, persisted so a failed or interrupted
+// rebalance continues from the step it stopped at
+export interface RebalanceProgress {
+	phase: RebalancePhase;
+	closingTokenIds: number[]; // Old legs still to close
+	targetLegs: TargetLeg[]; // Layout to mint, fixed when SWAPPING completes
+	startedAt: number;
+	attempts: number; // Failed attempts so far
+	lastError?: string;
+}
+
+// Strategy state checkpointed to the database so a restart can resume
+export interface StrategyState {
+	poolAddress: string;
+	legTokenIds: number[]; // Live legs, lowest band first
+	ownedTokenIds: number[]; // Positions the strategy minted or adopted and still holds
+	rebalance: RebalanceProgress | null; // Rebalance in flight, if any
+	closeBalances: CloseBalances;
+	retainedFees: CloseBalances; // Fees kept idle by the "keep" fee policy
+	lastRebalancePrice: number;
+	lastRebalanceSqrtPriceX96: BigNumber;
+	lastCompoundTimestamp: number;
+	statsStartTimestamp: number; // Identifies the stats document of this run
+	updatedAt: number;
+}
+
 // Strategy stats interface for tracking performance
 export interface StrategyStats {
 	initialToken0Amount: BigNumber;
@@ -74,6 +341,52 @@ export interface StrategyStats {
 	totalRebalanceCount?: number;
 }
 
+// Everything the strategy holds at the current price, in raw token units
+export interface PortfolioValuation {
+	timestamp: number;
+	sqrtPriceX96: BigNumber;
+	positions: PositionInfo[]; // Live legs with their underlying amounts
+	wallet0: BigNumber;
+	wallet1: BigNumber;
+	principal0: BigNumber; // Underlying amounts of all live legs
+	principal1: BigNumber;
+	fees0: BigNumber; // Uncollected fees of all live legs
+	fees1: BigNumber;
+	total0: BigNumber;
+	total1: BigNumber;
+	totalValueInToken1: BigNumber;
+}
+
+// Kinds of mismatch between the chain and the strategy's records:
+// - ORPHAN_POSITION: live on chain but not tracked as active
+// - PHANTOM_POSITION: tracked as active but gone or empty on chain
+// - LIQUIDITY_MISMATCH: tracked liquidity differs from the chain
+// - BALANCE_DRIFT: wallet balance differs from the tracked idle balance
+export enum DiscrepancyKind {
+	ORPHAN_POSITION = "ORPHAN_POSITION",
+	PHANTOM_POSITION = "PHANTOM_POSITION",
+	LIQUIDITY_MISMATCH = "LIQUIDITY_MISMATCH",
+	BALANCE_DRIFT = "BALANCE_DRIFT",
+}
+
+// A single mismatch found by reconciliation
+export interface Discrepancy {
+	kind: DiscrepancyKind;
+	tokenId?: number;
+	token?: string; // Token address, for balance drift
+	expected?: BigNumber; // What the records say
+	actual?: BigNumber; // What the chain says
+	details: string;
+}
+
+// Outcome of one reconciliation run
+export interface ReconciliationReport {
+	timestamp: number;
+	onChainPositionCount: number; // Live positions owned by the wallet
+	trackedPositionCount: number; // Positions marked active in the database
+	discrepancies: Discrepancy[];
+}
+
 // Position range calculation data (needed for OracleService)
 export interface PositionRangeParams {
 	tickLower: number;
@@ -95,6 +408,8 @@ export interface DbPositionInfo {
 	tokenId?: number;
 	token0Amount?: string;
 	token1Amount?: string;
+	balancedHold0?: string;
+	balancedHold1?: string;
 	feeGrowthInside0?: string;
 	feeGrowthInside1?: string;
 	priceLower?: number;
@@ -111,6 +426,22 @@ export interface DbActionEvent {
 	data?: any;
 }
 
+export interface DbStrategyState {
+	poolAddress: string;
+	legTokenIds: number[];
+	ownedTokenIds?: number[]; // Missing in states saved before ownership tagging
+	closeBalanceToken0: string;
+	closeBalanceToken1: string;
+	retainedFeeToken0?: string; // Missing in states saved before fees were tracked
+	retainedFeeToken1?: string;
+	lastRebalancePrice: number;
+	lastRebalanceSqrtPriceX96: string;
+	lastCompoundTimestamp: number;
+	statsStartTimestamp: number;
+	updatedAt: number;
+	rebalance: RebalanceProgress | null;
+}
+
 export interface DbStrategyStats {
 	cycleCount: number;
 	profitLoss: number;
@@ -140,6 +471,14 @@ export enum ActionType {
 	STRAY_POSITION_DETECTED = "STRAY_POSITION_DETECTED",
 	STRAY_POSITION_CLOSED = "STRAY_POSITION_CLOSED",
 	STRATEGY_ERROR = "STRATEGY_ERROR",
+	PRICE_MANIPULATION_GUARD_TRIPPED = "PRICE_MANIPULATION_GUARD_TRIPPED",
+	PRICE_FEED_DIVERGENCE = "PRICE_FEED_DIVERGENCE",
+	LIQUIDITY_INCREASED = "LIQUIDITY_INCREASED",
+	FEES_COMPOUNDED = "FEES_COMPOUNDED",
+	CYCLE_PNL_RECORDED = "CYCLE_PNL_RECORDED",
+	RECONCILIATION_DISCREPANCY = "RECONCILIATION_DISCREPANCY",
+	RECONCILIATION_COMPLETED = "RECONCILIATION_COMPLETED",
+	UNMANAGED_POSITION_DETECTED = "UNMANAGED_POSITION_DETECTED",
 }
 
 // Action types for the strategy
@@ -0,0 +1,324 @@
+import { BigNumber, ethers } from "ethers";
+import Decimal from "decimal.js";
+import {
+	MAX_SQRT_RATIO,
+	MAX_TICK,
+	MIN_SQRT_RATIO,
+	MIN_TICK,
+	Q96,
+	Q128,
+	getAmount0Delta,
+	getAmount1Delta,
+	getAmountsForLiquidity,
+	getFeeGrowthInside,
+	getFeesAccrued,
+	getLiquidityForAmounts,
+	getSqrtRatioAtTick,
+	getTickAtSqrtRatio,
+	priceToSqrtPriceX96,
+	priceToTick,
+	sqrtPriceX96ToPrice,
+} from "./uniswapMath";
+
+const HighPrecision = Decimal.config({ precision: 80 });
+type HighPrecisionValue = ReturnType<typeof HighPrecision>;
+
+// sqrt(1.0001^tick) * 2^96, computed independently of the bit tricks
+function referenceSqrtRatio(tick: number): HighPrecisionValue {
+	return new HighPrecision("1.0001")
+		.pow(tick)
+		.sqrt()
+		.times(new HighPrecision(2).pow(96));
+}
+
+// Same as encodePriceSqrt in the Uniswap test suites, which round the ratio
+// and its square root to 20 decimal places
+function encodePriceSqrt(reserve1: number, reserve0: number): BigNumber {
+	const ratio = new HighPrecision(reserve1)
+		.div(reserve0)
+		.toDecimalPlaces(20, HighPrecision.ROUND_HALF_UP);
+	return BigNumber.from(
+		ratio
+			.sqrt()
+			.toDecimalPlaces(20, HighPrecision.ROUND_HALF_UP)
+			.times(new HighPrecision(2).pow(96))
+			.floor()
+			.toFixed()
+	);
+}
+
+// Greatest tick whose price is at or below the raw price
+function referenceTick(rawPrice: HighPrecisionValue): number {
+	return rawPrice
+		.ln()
+		.div(new HighPrecision("1.0001").ln())
+		.floor()
+		.toNumber();
+}
+
+describe("getSqrtRatioAtTick", () => {
+	it("returns 2^96 at tick 0", () => {
+		expect(getSqrtRatioAtTick(0).eq(Q96)).toBe(true);
+	});
+
+	it("returns the bounds at MIN_TICK and MAX_TICK", () => {
+		expect(getSqrtRatioAtTick(MIN_TICK).toString()).toBe("4295128739");
+		expect(getSqrtRatioAtTick(MAX_TICK).toString()).toBe(
+			"1461446703485210103287273052203988822378723970342"
+		);
+		expect(getSqrtRatioAtTick(MIN_TICK).eq(MIN_SQRT_RATIO)).toBe(true);
+		expect(getSqrtRatioAtTick(MAX_TICK).eq(MAX_SQRT_RATIO)).toBe(true);
+	});
+
+	it("matches the core TickMath values next to the bounds", () => {
+		expect(getSqrtRatioAtTick(MIN_TICK + 1).toString()).toBe("4295343490");
+		expect(getSqrtRatioAtTick(MAX_TICK - 1).toString()).toBe(
+			"1461373636630004318706518188784493106690254656249"
+		);
+	});
+
+	it.each([1, -1, 10, -10, 50, -50, 60, 200, -200, 4055, -4055, 69081, -69081, 201960, -201960, 400000, -400000])(
+		"is within a hundredth of a bip of 1.0001^tick at tick %i",
+		(tick) => {
+			const expected = referenceSqrtRatio(tick);
+			const actual = new HighPrecision(getSqrtRatioAtTick(tick).toString());
+			expect(
+				actual.minus(expected).abs().div(expected).lt("0.000001")
+			).toBe(true);
+		}
+	);
+
+	it("rejects ticks out of range", () => {
+		expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+		expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+	});
+});
+
+describe("getTickAtSqrtRatio", () => {
+	it("returns tick 0 at 2^96", () => {
+		expect(getTickAtSqrtRatio(Q96)).toBe(0);
+	});
+
+	it("returns the bounds at MIN_SQRT_RATIO and just below MAX_SQRT_RATIO", () => {
+		expect(getTickAtSqrtRatio(MIN_SQRT_RATIO)).toBe(MIN_TICK);
+		expect(getTickAtSqrtRatio(MAX_SQRT_RATIO.sub(1))).toBe(MAX_TICK - 1);
+	});
+
+	it.each([MIN_TICK + 1, -400000, -69081, -50, -1, 1, 50, 69081, 400000, MAX_TICK - 1])(
+		"inverts getSqrtRatioAtTick at tick %i",
+		(tick) => {
+			const sqrtRatio = getSqrtRatioAtTick(tick);
+			expect(getTickAtSqrtRatio(sqrtRatio)).toBe(tick);
+			expect(getTickAtSqrtRatio(sqrtRatio.sub(1))).toBe(tick - 1);
+		}
+	);
+
+	it("rejects ratios out of range", () => {
+		expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO.sub(1))).toThrow();
+		expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).toThrow();
+	});
+});
+
+describe("priceToTick", () => {
+	it("returns tick 0 at price 1 for equal decimals", () => {
+		expect(priceToTick(1, 18, 18)).toBe(0);
+	});
+
+	it.each([
+		[2500.37, 18, 6],
+		[0.000399, 6, 18],
+		[1.5, 18, 18],
+		[0.98765, 18, 18],
+		[64123.9, 8, 6],
+		[1e25, 18, 18],
+		[1e-20, 18, 18],
+		[3.7e24, 6, 18],
+		[2.2e-24, 18, 6],
+	])("matches the reference tick at price %p (%i/%i decimals)", (price, token0Decimals, token1Decimals) => {
+		const rawPrice = new HighPrecision(price).times(
+			new HighPrecision(10).pow(token1Decimals - token0Decimals)
+		);
+		expect(priceToTick(price, token0Decimals, token1Decimals)).toBe(
+			referenceTick(rawPrice)
+		);
+	});
+
+	it("rejects prices that are not positive and finite", () => {
+		expect(() => priceToTick(0, 18, 18)).toThrow("Invalid price");
+		expect(() => priceToTick(-1, 18, 18)).toThrow("Invalid price");
+		expect(() => priceToTick(Infinity, 18, 18)).toThrow("Invalid price");
+	});
+});
+
+describe("priceToSqrtPriceX96", () => {
+	it("converts prices at or above 1e21 without throwing", () => {
+		const sqrtPrice = priceToSqrtPriceX96(1e21, 18, 18);
+		const expected = new HighPrecision(10).pow(21).sqrt().times(new HighPrecision(2).pow(96));
+		expect(new HighPrecision(sqrtPrice.toString()).div(expected).minus(1).abs().lt("1e-12")).toBe(true);
+	});
+
+	it("keeps tiny prices above zero", () => {
+		const sqrtPrice = priceToSqrtPriceX96(1e-20, 18, 18);
+		const expected = new HighPrecision(10).pow(-20).sqrt().times(new HighPrecision(2).pow(96));
+		expect(sqrtPrice.gt(BigNumber.from(0))).toBe(true);
+		expect(new HighPrecision(sqrtPrice.toString()).div(expected).minus(1).abs().lt("1e-12")).toBe(true);
+	});
+});
+
+describe("sqrtPriceX96ToPrice", () => {
+	it.each([
+		[2500.37, 18, 6],
+		[0.000399, 6, 18],
+		[1e-20, 18, 18],
+		[1e25, 18, 18],
+	])("round-trips price %p (%i/%i decimals)", (price, token0Decimals, token1Decimals) => {
+		const sqrtPrice = priceToSqrtPriceX96(price, token0Decimals, token1Decimals);
+		const roundTripped = sqrtPriceX96ToPrice(sqrtPrice, token0Decimals, token1Decimals);
+		expect(Math.abs(roundTripped / price - 1)).toBeLessThan(1e-12);
+	});
+
+	it.each([MIN_SQRT_RATIO, MAX_SQRT_RATIO.sub(1)])(
+		"keeps the significant digits of the extreme sqrt price %s",
+		(sqrtPrice) => {
+			const expected = new HighPrecision(sqrtPrice.toString())
+				.div(new HighPrecision(2).pow(96))
+				.pow(2)
+				.toNumber();
+			const price = sqrtPriceX96ToPrice(sqrtPrice, 18, 18);
+			expect(price).toBeGreaterThan(0);
+			expect(Math.abs(price / expected - 1)).toBeLessThan(1e-12);
+		}
+	);
+});
+
+describe("getAmount0Delta / getAmount1Delta", () => {
+	const sqrtPriceOne = encodePriceSqrt(1, 1);
+	const sqrtPriceOnePointTwoOne = encodePriceSqrt(121, 100);
+	const oneEther = ethers.utils.parseEther("1");
+
+	it("returns 0 for zero liquidity or equal prices", () => {
+		expect(
+			getAmount0Delta(sqrtPriceOne, sqrtPriceOnePointTwoOne, BigNumber.from(0), true).isZero()
+		).toBe(true);
+		expect(getAmount1Delta(sqrtPriceOne, sqrtPriceOne, oneEther, true).isZero()).toBe(true);
+	});
+
+	it("matches the core SqrtPriceMath amount0 vector for price 1 to 1.21", () => {
+		expect(
+			getAmount0Delta(sqrtPriceOne, sqrtPriceOnePointTwoOne, oneEther, true).toString()
+		).toBe("90909090909090910");
+		expect(
+			getAmount0Delta(sqrtPriceOne, sqrtPriceOnePointTwoOne, oneEther, false).toString()
+		).toBe("90909090909090909");
+	});
+
+	it("matches the core SqrtPriceMath amount1 vector for price 1 to 1.21", () => {
+		expect(
+			getAmount1Delta(sqrtPriceOne, sqrtPriceOnePointTwoOne, oneEther, true).toString()
+		).toBe("100000000000000000");
+		expect(
+			getAmount1Delta(sqrtPriceOne, sqrtPriceOnePointTwoOne, oneEther, false).toString()
+		).toBe("99999999999999999");
+	});
+
+	it("does not depend on the order of the prices", () => {
+		expect(
+			getAmount0Delta(sqrtPriceOnePointTwoOne, sqrtPriceOne, oneEther, true).toString()
+		).toBe("90909090909090910");
+	});
+});
+
+describe("getLiquidityForAmounts / getAmountsForLiquidity", () => {
+	// Vectors from the periphery LiquidityAmounts tests, range 100/110 to 110/100
+	const sqrtRatioA = encodePriceSqrt(100, 110);
+	const sqrtRatioB = encodePriceSqrt(110, 100);
+
+	it.each([
+		["inside the range", encodePriceSqrt(1, 1), 2148, 99, 99],
+		["below the range", encodePriceSqrt(99, 110), 1048, 99, 0],
+		["above the range", encodePriceSqrt(111, 100), 2097, 0, 199],
+	])(
+		"matches the reference vectors with the price %s",
+		(_, sqrtPriceX96, liquidity, amount0, amount1) => {
+			expect(
+				getLiquidityForAmounts(
+					sqrtPriceX96,
+					sqrtRatioA,
+					sqrtRatioB,
+					BigNumber.from(100),
+					BigNumber.from(200)
+				).toNumber()
+			).toBe(liquidity);
+
+			const amounts = getAmountsForLiquidity(
+				sqrtPriceX96,
+				sqrtRatioA,
+				sqrtRatioB,
+				BigNumber.from(liquidity)
+			);
+			expect(amounts.amount0.toNumber()).toBe(amount0);
+			expect(amounts.amount1.toNumber()).toBe(amount1);
+		}
+	);
+
+	it("treats a price on the lower boundary as below the range", () => {
+		const amounts = getAmountsForLiquidity(
+			sqrtRatioA,
+			sqrtRatioA,
+			sqrtRatioB,
+			BigNumber.from(2148)
+		);
+		expect(amounts.amount1.isZero()).toBe(true);
+		expect(amounts.amount0.gt(0)).toBe(true);
+	});
+});
+
+describe("getFeeGrowthInside / getFeesAccrued", () => {
+	const UINT256_MODULUS = ethers.constants.MaxUint256.add(1);
+
+	it("subtracts the growth outside both ticks when the price is inside", () => {
+		expect(
+			getFeeGrowthInside(-60, 60, 0, BigNumber.from(100), BigNumber.from(10), BigNumber.from(20)).toNumber()
+		).toBe(70);
+	});
+
+	it("uses the growth below the lower tick when the price is below the range", () => {
+		// Below: inside = lowerOutside - upperOutside
+		expect(
+			getFeeGrowthInside(-60, 60, -120, BigNumber.from(100), BigNumber.from(50), BigNumber.from(20)).toNumber()
+		).toBe(30);
+	});
+
+	it("uses the growth above the upper tick when the price is above the range", () => {
+		// Above: inside = upperOutside - lowerOutside
+		expect(
+			getFeeGrowthInside(-60, 60, 120, BigNumber.from(100), BigNumber.from(20), BigNumber.from(50)).toNumber()
+		).toBe(30);
+	});
+
+	it("wraps around 2^256 like the pool when outside growth exceeds global", () => {
+		const inside = getFeeGrowthInside(
+			-60,
+			60,
+			0,
+			BigNumber.from(100),
+			BigNumber.from(80),
+			BigNumber.from(30)
+		);
+		expect(inside.eq(UINT256_MODULUS.sub(10))).toBe(true);
+	});
+
+	it("accrues fees across the wraparound of fee growth inside", () => {
+		const liquidity = ethers.utils.parseEther("1");
+		const last = UINT256_MODULUS.sub(Q128.mul(2));
+		const now = Q128.mul(3);
+
+		expect(getFeesAccrued(liquidity, now, last).eq(liquidity.mul(5))).toBe(true);
+	});
+
+	it("rounds accrued fees down", () => {
+		expect(
+			getFeesAccrued(BigNumber.from(3), Q128.div(2), BigNumber.from(0)).toNumber()
+		).toBe(1);
+	});
+});
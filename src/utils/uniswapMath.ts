@@ -0,0 +1,487 @@
+import { BigNumber, ethers } from "ethers";
+
+/**
+ * Exact Uniswap V3 tick, price, liquidity and fee math on BigNumber, ported
+ * from TickMath.sol, SqrtPriceMath.sol, LiquidityAmounts.sol, Tick.sol and
+ * Position.sol
+ */
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigNumber.from("4295128739");
+export const MAX_SQRT_RATIO = BigNumber.from(
+	"1461446703485210103287273052203988822378723970342"
+);
+export const Q96 = BigNumber.from(2).pow(96);
+export const Q128 = BigNumber.from(2).pow(128);
+export const Q192 = BigNumber.from(2).pow(192);
+
+const MAX_UINT256 = ethers.constants.MaxUint256;
+const UINT256_MODULUS = MAX_UINT256.add(1);
+const PRICE_SIGNIFICANT_DIGITS = 17; // Enough to round-trip any double
+
+// Multipliers for each bit of the absolute tick, from TickMath.sol
+const TICK_MULTIPLIERS: [number, string][] = [
+	[0x2, "0xfff97272373d413259a46990580e213a"],
+	[0x4, "0xfff2e50f5f656932ef12357cf3c7fdcc"],
+	[0x8, "0xffe5caca7e10e4e61c3624eaa0941cd0"],
+	[0x10, "0xffcb9843d60f6159c9db58835c926644"],
+	[0x20, "0xff973b41fa98c081472e6896dfb254c0"],
+	[0x40, "0xff2ea16466c96a3843ec78b326b52861"],
+	[0x80, "0xfe5dee046a99a2a811c461f1969c3053"],
+	[0x100, "0xfcbe86c7900a88aedcffc83b479aa3a4"],
+	[0x200, "0xf987a7253ac413176f2b074cf7815e54"],
+	[0x400, "0xf3392b0822b70005940c7a398e4b70f3"],
+	[0x800, "0xe7159475a2c29b7443b29c7fa6e889d9"],
+	[0x1000, "0xd097f3bdfd2022b8845ad8f792aa5825"],
+	[0x2000, "0xa9f746462d870fdf8a65dc1f90e061e5"],
+	[0x4000, "0x70d869a156d2a1b890bb3df62baf32f7"],
+	[0x8000, "0x31be135f97d08fd981231505542fcfa6"],
+	[0x10000, "0x9aa508b5b7a84e1c677de54f3e99bc9"],
+	[0x20000, "0x5d6af8dedb81196699c329225ee604"],
+	[0x40000, "0x2216e584f5fa1ea926041bedfe98"],
+	[0x80000, "0x48a170391f7dc42444e8fa2"],
+];
+
+/**
+ * Calculates sqrt(1.0001^tick) * 2^96
+ * @param tick The tick to convert
+ * @returns The sqrt ratio as a Q64.96 value
+ */
+export function getSqrtRatioAtTick(tick: number): BigNumber {
+	if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+		throw new Error(`Tick out of range: ${tick}`);
+	}
+
+	const absTick = Math.abs(tick);
+
+	let ratio: BigNumber =
+		(absTick & 0x1) !== 0
+			? BigNumber.from("0xfffcb933bd6fad37aa2d162d1a594001")
+			: BigNumber.from("0x100000000000000000000000000000000");
+
+	for (const [bit, multiplier] of TICK_MULTIPLIERS) {
+		if ((absTick & bit) !== 0) {
+			ratio = ratio.mul(multiplier).shr(128);
+		}
+	}
+
+	if (tick > 0) {
+		ratio = MAX_UINT256.div(ratio);
+	}
+
+	// Round up when converting from Q128.128 to Q64.96
+	return ratio.mod(BigNumber.from(2).pow(32)).isZero()
+		? ratio.shr(32)
+		: ratio.shr(32).add(1);
+}
+
+/**
+ * Calculates the greatest tick whose sqrt ratio is <= the given sqrt ratio
+ * @param sqrtRatioX96 The sqrt ratio as a Q64.96 value
+ * @returns The tick
+ */
+export function getTickAtSqrtRatio(sqrtRatioX96: BigNumber): number {
+	if (sqrtRatioX96.lt(MIN_SQRT_RATIO) || sqrtRatioX96.gte(MAX_SQRT_RATIO)) {
+		throw new Error(`Sqrt ratio out of range: ${sqrtRatioX96.toString()}`);
+	}
+
+	// Start from a floating point estimate, then settle on the exact tick
+	// by comparing against the exact ratios of its neighbours
+	const sqrtPrice = parseFloat(sqrtRatioX96.toString()) / Math.pow(2, 96);
+	let tick = Math.floor((2 * Math.log(sqrtPrice)) / Math.log(1.0001));
+	tick = Math.min(MAX_TICK, Math.max(MIN_TICK, tick));
+
+	while (tick > MIN_TICK && getSqrtRatioAtTick(tick).gt(sqrtRatioX96)) {
+		tick--;
+	}
+	while (tick < MAX_TICK && getSqrtRatioAtTick(tick + 1).lte(sqrtRatioX96)) {
+		tick++;
+	}
+
+	return tick;
+}
+
+/**
+ * Multiply then divide, rounding up
+ */
+function mulDivRoundingUp(
+	a: BigNumber,
+	b: BigNumber,
+	denominator: BigNumber
+): BigNumber {
+	const product = a.mul(b);
+	const result = product.div(denominator);
+	return product.mod(denominator).isZero() ? result : result.add(1);
+}
+
+/**
+ * Divide, rounding up
+ */
+function divRoundingUp(a: BigNumber, b: BigNumber): BigNumber {
+	const result = a.div(b);
+	return a.mod(b).isZero() ? result : result.add(1);
+}
+
+/**
+ * Order two sqrt ratios so the first is the lower one
+ */
+function sortRatios(
+	sqrtRatioAX96: BigNumber,
+	sqrtRatioBX96: BigNumber
+): [BigNumber, BigNumber] {
+	return sqrtRatioAX96.gt(sqrtRatioBX96)
+		? [sqrtRatioBX96, sqrtRatioAX96]
+		: [sqrtRatioAX96, sqrtRatioBX96];
+}
+
+/**
+ * Amount of token0 between two sqrt prices for a given liquidity
+ * @param sqrtRatioAX96 A sqrt price
+ * @param sqrtRatioBX96 Another sqrt price
+ * @param liquidity The liquidity
+ * @param roundUp Whether to round the amount up
+ * @returns Amount of token0
+ */
+export function getAmount0Delta(
+	sqrtRatioAX96: BigNumber,
+	sqrtRatioBX96: BigNumber,
+	liquidity: BigNumber,
+	roundUp: boolean
+): BigNumber {
+	const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+
+	const numerator1 = liquidity.shl(96);
+	const numerator2 = upper.sub(lower);
+
+	return roundUp
+		? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+		: numerator1.mul(numerator2).div(upper).div(lower);
+}
+
+/**
+ * Amount of token1 between two sqrt prices for a given liquidity
+ * @param sqrtRatioAX96 A sqrt price
+ * @param sqrtRatioBX96 Another sqrt price
+ * @param liquidity The liquidity
+ * @param roundUp Whether to round the amount up
+ * @returns Amount of token1
+ */
+export function getAmount1Delta(
+	sqrtRatioAX96: BigNumber,
+	sqrtRatioBX96: BigNumber,
+	liquidity: BigNumber,
+	roundUp: boolean
+): BigNumber {
+	const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+
+	return roundUp
+		? mulDivRoundingUp(liquidity, upper.sub(lower), Q96)
+		: liquidity.mul(upper.sub(lower)).div(Q96);
+}
+
+/**
+ * Token amounts backing a liquidity amount at the current price (rounded down,
+ * as LiquidityAmounts.getAmountsForLiquidity)
+ * @param sqrtPriceX96 Current pool sqrt price
+ * @param sqrtRatioAX96 Sqrt price at one range boundary
+ * @param sqrtRatioBX96 Sqrt price at the other range boundary
+ * @param liquidity The liquidity
+ * @returns Amounts of token0 and token1
+ */
+export function getAmountsForLiquidity(
+	sqrtPriceX96: BigNumber,
+	sqrtRatioAX96: BigNumber,
+	sqrtRatioBX96: BigNumber,
+	liquidity: BigNumber
+): { amount0: BigNumber; amount1: BigNumber } {
+	const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+
+	if (sqrtPriceX96.lte(lower)) {
+		return {
+			amount0: getAmount0Delta(lower, upper, liquidity, false),
+			amount1: BigNumber.from(0),
+		};
+	}
+	if (sqrtPriceX96.lt(upper)) {
+		return {
+			amount0: getAmount0Delta(sqrtPriceX96, upper, liquidity, false),
+			amount1: getAmount1Delta(lower, sqrtPriceX96, liquidity, false),
+		};
+	}
+	return {
+		amount0: BigNumber.from(0),
+		amount1: getAmount1Delta(lower, upper, liquidity, false),
+	};
+}
+
+/**
+ * Maximum liquidity that the given token amounts can mint at the current price
+ * @param sqrtPriceX96 Current pool sqrt price
+ * @param sqrtRatioAX96 Sqrt price at one range boundary
+ * @param sqrtRatioBX96 Sqrt price at the other range boundary
+ * @param amount0 Available token0
+ * @param amount1 Available token1
+ * @returns The liquidity
+ */
+export function getLiquidityForAmounts(
+	sqrtPriceX96: BigNumber,
+	sqrtRatioAX96: BigNumber,
+	sqrtRatioBX96: BigNumber,
+	amount0: BigNumber,
+	amount1: BigNumber
+): BigNumber {
+	const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+
+	const liquidityForAmount0 = (a: BigNumber, b: BigNumber) =>
+		amount0.mul(a.mul(b).div(Q96)).div(b.sub(a));
+	const liquidityForAmount1 = (a: BigNumber, b: BigNumber) =>
+		amount1.mul(Q96).div(b.sub(a));
+
+	if (sqrtPriceX96.lte(lower)) {
+		return liquidityForAmount0(lower, upper);
+	}
+	if (sqrtPriceX96.lt(upper)) {
+		const liquidity0 = liquidityForAmount0(sqrtPriceX96, upper);
+		const liquidity1 = liquidityForAmount1(lower, sqrtPriceX96);
+		return liquidity0.lt(liquidity1) ? liquidity0 : liquidity1;
+	}
+	return liquidityForAmount1(lower, upper);
+}
+
+/**
+ * Subtract two uint256 values with wraparound, as Solidity < 0.8 does for
+ * fee growth accumulators
+ * @param a Minuend
+ * @param b Subtrahend
+ * @returns (a - b) mod 2^256
+ */
+function subUint256(a: BigNumber, b: BigNumber): BigNumber {
+	const difference = a.sub(b);
+	return difference.isNegative() ? difference.add(UINT256_MODULUS) : difference;
+}
+
+/**
+ * Fee growth per unit of liquidity inside a tick range (Tick.getFeeGrowthInside)
+ * @param tickLower Lower tick of the range
+ * @param tickUpper Upper tick of the range
+ * @param tickCurrent Current pool tick
+ * @param feeGrowthGlobalX128 Pool feeGrowthGlobal for the token
+ * @param lowerFeeGrowthOutsideX128 feeGrowthOutside of the lower tick
+ * @param upperFeeGrowthOutsideX128 feeGrowthOutside of the upper tick
+ * @returns Fee growth inside the range as a Q128.128 value
+ */
+export function getFeeGrowthInside(
+	tickLower: number,
+	tickUpper: number,
+	tickCurrent: number,
+	feeGrowthGlobalX128: BigNumber,
+	lowerFeeGrowthOutsideX128: BigNumber,
+	upperFeeGrowthOutsideX128: BigNumber
+): BigNumber {
+	const feeGrowthBelow =
+		tickCurrent >= tickLower
+			? lowerFeeGrowthOutsideX128
+			: subUint256(feeGrowthGlobalX128, lowerFeeGrowthOutsideX128);
+	const feeGrowthAbove =
+		tickCurrent < tickUpper
+			? upperFeeGrowthOutsideX128
+			: subUint256(feeGrowthGlobalX128, upperFeeGrowthOutsideX128);
+
+	return subUint256(
+		subUint256(feeGrowthGlobalX128, feeGrowthBelow),
+		feeGrowthAbove
+	);
+}
+
+/**
+ * Fees accrued by a position since its fee growth was last checkpointed
+ * (Position.update)
+ * @param liquidity Position liquidity
+ * @param feeGrowthInsideX128 Current fee growth inside the position's range
+ * @param feeGrowthInsideLastX128 Fee growth inside recorded on the position
+ * @returns Raw token amount of accrued fees, rounded down
+ */
+export function getFeesAccrued(
+	liquidity: BigNumber,
+	feeGrowthInsideX128: BigNumber,
+	feeGrowthInsideLastX128: BigNumber
+): BigNumber {
+	return subUint256(feeGrowthInsideX128, feeGrowthInsideLastX128)
+		.mul(liquidity)
+		.div(Q128);
+}
+
+/**
+ * Value of a token0 amount expressed in token1 at the given sqrt price
+ * @param amount0 Raw token0 amount
+ * @param sqrtPriceX96 Pool sqrt price
+ * @returns Equivalent raw token1 amount
+ */
+export function quoteToken0InToken1(
+	amount0: BigNumber,
+	sqrtPriceX96: BigNumber
+): BigNumber {
+	return amount0.mul(sqrtPriceX96).mul(sqrtPriceX96).div(Q192);
+}
+
+/**
+ * Value of a token1 amount expressed in token0 at the given sqrt price
+ * @param amount1 Raw token1 amount
+ * @param sqrtPriceX96 Pool sqrt price
+ * @returns Equivalent raw token0 amount
+ */
+export function quoteToken1InToken0(
+	amount1: BigNumber,
+	sqrtPriceX96: BigNumber
+): BigNumber {
+	return amount1.mul(Q192).div(sqrtPriceX96.mul(sqrtPriceX96));
+}
+
+/**
+ * Integer square root (floor) of a BigNumber
+ */
+function sqrt(value: BigNumber): BigNumber {
+	if (value.isNegative()) {
+		throw new Error("Square root of negative number");
+	}
+	if (value.lt(2)) {
+		return value;
+	}
+
+	let x0 = value;
+	let x1 = value.shr(1);
+	while (x1.lt(x0)) {
+		x0 = x1;
+		x1 = value.div(x1).add(x1).shr(1);
+	}
+	return x0;
+}
+
+/**
+ * Convert a decimal adjusted price (token1 per token0) to a sqrt price
+ * @param price The price to convert
+ * @param token0Decimals Decimals of token0
+ * @param token1Decimals Decimals of token1
+ * @returns The sqrt price as a Q64.96 value
+ */
+export function priceToSqrtPriceX96(
+	price: number,
+	token0Decimals: number,
+	token1Decimals: number
+): BigNumber {
+	if (!(price > 0) || !isFinite(price)) {
+		throw new Error(`Invalid price: ${price}`);
+	}
+
+	// Split the price into integer digits and a power of ten, so prices of
+	// any magnitude convert without overflowing or rounding to zero
+	const [mantissa, exponent] = price
+		.toExponential(PRICE_SIGNIFICANT_DIGITS - 1)
+		.split("e");
+	const digits = BigNumber.from(mantissa.replace(".", ""));
+
+	// Raw price = digits * 10^powerOfTen, with the token decimals folded in
+	const powerOfTen =
+		Number(exponent) -
+		(PRICE_SIGNIFICANT_DIGITS - 1) +
+		(token1Decimals - token0Decimals);
+
+	let numerator = digits.mul(Q192);
+	let denominator = BigNumber.from(1);
+	if (powerOfTen >= 0) {
+		numerator = numerator.mul(BigNumber.from(10).pow(powerOfTen));
+	} else {
+		denominator = BigNumber.from(10).pow(-powerOfTen);
+	}
+
+	return sqrt(numerator.div(denominator));
+}
+
+/**
+ * Convert a sqrt price to a decimal adjusted price (token1 per token0)
+ * @param sqrtPriceX96 The sqrt price as a Q64.96 value
+ * @param token0Decimals Decimals of token0
+ * @param token1Decimals Decimals of token1
+ * @returns The price
+ */
+export function sqrtPriceX96ToPrice(
+	sqrtPriceX96: BigNumber,
+	token0Decimals: number,
+	token1Decimals: number
+): number {
+	const priceX192 = sqrtPriceX96.mul(sqrtPriceX96);
+	const decimalsDiff = token0Decimals - token1Decimals;
+
+	// Scale by enough powers of ten that even tiny prices keep all the
+	// significant digits a double can hold
+	const magnitude =
+		priceX192.toString().length - Q192.toString().length + decimalsDiff;
+	const scaleDecimals = Math.max(0, PRICE_SIGNIFICANT_DIGITS - magnitude);
+
+	let numerator = priceX192;
+	let denominator = Q192;
+	const powerOfTen = scaleDecimals + decimalsDiff;
+	if (powerOfTen >= 0) {
+		numerator = numerator.mul(BigNumber.from(10).pow(powerOfTen));
+	} else {
+		denominator = denominator.mul(BigNumber.from(10).pow(-powerOfTen));
+	}
+
+	return parseFloat(`${numerator.div(denominator).toString()}e-${scaleDecimals}`);
+}
+
+/**
+ * Convert price to tick (the greatest tick at or below the price)
+ * @param price The price to convert (token1 per token0, decimal adjusted)
+ * @param token0Decimals Decimals of token0
+ * @param token1Decimals Decimals of token1
+ * @returns The corresponding tick
+ */
+export function priceToTick(
+	price: number,
+	token0Decimals: number,
+	token1Decimals: number
+): number {
+	return getTickAtSqrtRatio(
+		priceToSqrtPriceX96(price, token0Decimals, token1Decimals)
+	);
+}
+
+/**
+ * Convert tick to price
+ * @param tick The tick to convert
+ * @param token0Decimals Decimals of token0
+ * @param token1Decimals Decimals of token1
+ * @returns The corresponding price
+ */
+export function tickToPrice(
+	tick: number,
+	token0Decimals: number,
+	token1Decimals: number
+): number {
+	return sqrtPriceX96ToPrice(
+		getSqrtRatioAtTick(tick),
+		token0Decimals,
+		token1Decimals
+	);
+}
+
+/**
+ * Ensures that a tick is properly aligned to the pool's tick spacing
+ * @param tick The tick to align
+ * @param tickSpacing The pool's tick spacing
+ * @param roundUp Whether to round up or down
+ * @returns The aligned tick
+ */
+export function alignTickToSpacing(
+	tick: number,
+	tickSpacing: number,
+	roundUp: boolean = false
+): number {
+	if (roundUp) {
+		return Math.ceil(tick / tickSpacing) * tickSpacing;
+	} else {
+		return Math.floor(tick / tickSpacing) * tickSpacing;
+	}
+}